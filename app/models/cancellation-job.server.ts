@@ -0,0 +1,210 @@
+import type { AdminApiContext } from "@shopify/shopify-app-react-router/server";
+import type { OrderCancellation } from "@prisma/client";
+import db from "../db.server";
+import {
+  addOrderTags,
+  isCancellationReason,
+  tagCancelledOrder,
+} from "./order-cancel.server";
+import {
+  creditStoreCreditBonus,
+  restockInventory,
+} from "./cancellation-refund.server";
+
+/**
+ * A cancellation is pending while its orderCancel job runs. It's completed
+ * once the order is cancelled, and failed when the job finished without
+ * cancelling it.
+ */
+export type OrderCancellationStatus = "pending" | "completed" | "failed";
+
+// Tagged on orders whose cancellation failed, so merchants can find them
+export const CANCELLATION_FAILED_TAG = "cancellation-failed";
+
+const CANCELLATION_FAILED_MESSAGE =
+  "Shopify couldn't cancel the order. The store has been notified.";
+
+// How long the cancel request waits for the job before the customer's
+// extension takes over polling
+const JOB_WAIT_ATTEMPTS = 3;
+const JOB_WAIT_INTERVAL_MS = 1000;
+
+/**
+ * The latest cancellation recorded for an order, or null when there's
+ * none. Pass the customer's id to only find their cancellations.
+ */
+export async function findOrderCancellation(
+  shop: string,
+  orderId: string,
+  customerId?: string,
+) {
+  return db.orderCancellation.findFirst({
+    where: { shop, orderId, ...(customerId ? { customerId } : {}) },
+    orderBy: { createdAt: "desc" },
+  });
+}
+
+/**
+ * Cancellations whose job failed over the last `days` days, newest first.
+ */
+export async function getFailedOrderCancellations(
+  shop: string,
+  days: number,
+  now = new Date(),
+) {
+  return db.orderCancellation.findMany({
+    where: {
+      shop,
+      status: "failed",
+      createdAt: { gte: new Date(now.getTime() - days * 24 * 60 * 60 * 1000) },
+    },
+    orderBy: { createdAt: "desc" },
+  });
+}
+
+/**
+ * Whether the orderCancel job finished, and whether the order ended up
+ * cancelled. A job Shopify no longer knows about counts as finished, and
+ * cancellations without a job only need the order checked.
+ */
+async function getCancellationJobState(
+  admin: AdminApiContext,
+  cancellation: OrderCancellation,
+): Promise<{ done: boolean; cancelled: boolean }> {
+  const response = cancellation.jobId
+    ? await admin.graphql(
+        `#graphql
+        query GetOrderCancelJob($jobId: ID!, $orderId: ID!) {
+          job(id: $jobId) {
+            done
+          }
+          order(id: $orderId) {
+            cancelledAt
+          }
+        }`,
+        {
+          variables: { jobId: cancellation.jobId, orderId: cancellation.orderId },
+        }
+      )
+    : await admin.graphql(
+        `#graphql
+        query GetCancelledOrder($orderId: ID!) {
+          order(id: $orderId) {
+            cancelledAt
+          }
+        }`,
+        {
+          variables: { orderId: cancellation.orderId },
+        }
+      );
+
+  const json = await response.json();
+
+  // Check again later when the job couldn't be looked up
+  if (!json.data) {
+    return { done: false, cancelled: false };
+  }
+
+  return {
+    done: !cancellation.jobId || (json.data.job?.done ?? true),
+    cancelled: Boolean(json.data.order?.cancelledAt),
+  };
+}
+
+/**
+ * Finishes what orderCancel can't do itself: tags the order with the
+ * reason, restocks the locations it didn't, and credits the store credit
+ * bonus. The order is cancelled either way, so failures are only logged.
+ */
+async function completeOrderCancellation(
+  admin: AdminApiContext,
+  cancellation: OrderCancellation,
+) {
+  if (isCancellationReason(cancellation.reason)) {
+    await tagCancelledOrder(admin, cancellation.orderId, cancellation.reason);
+  }
+
+  if (cancellation.restockAdjustments) {
+    await restockInventory(admin, JSON.parse(cancellation.restockAdjustments));
+  }
+
+  if (cancellation.storeCreditBonus && cancellation.storeCreditBonusCurrency) {
+    await creditStoreCreditBonus(admin, cancellation.customerId, {
+      amount: cancellation.storeCreditBonus,
+      currencyCode: cancellation.storeCreditBonusCurrency,
+    });
+  }
+}
+
+/**
+ * Moves the cancellation to the status the orderCancel job ended in, then
+ * finishes the cancellation, or tags the order for the merchant when it
+ * failed. Only the caller that moves it out of pending does either, so
+ * concurrent checks don't restock or credit twice.
+ *
+ * Returns the cancellation as it is now.
+ */
+export async function syncOrderCancellationJob(
+  admin: AdminApiContext,
+  cancellation: OrderCancellation,
+): Promise<OrderCancellation> {
+  if (cancellation.status !== "pending") {
+    return cancellation;
+  }
+
+  const { done, cancelled } = await getCancellationJobState(
+    admin,
+    cancellation,
+  );
+  if (!cancelled && !done) {
+    return cancellation;
+  }
+
+  const status: OrderCancellationStatus = cancelled ? "completed" : "failed";
+  const error = cancelled ? null : CANCELLATION_FAILED_MESSAGE;
+  const { count } = await db.orderCancellation.updateMany({
+    where: { id: cancellation.id, status: "pending" },
+    data: { status, error, completedAt: new Date() },
+  });
+
+  if (count === 1) {
+    if (cancelled) {
+      await completeOrderCancellation(admin, cancellation);
+    } else {
+      console.error("Order cancellation job failed:", cancellation.orderId);
+      await addOrderTags(admin, cancellation.orderId, [
+        CANCELLATION_FAILED_TAG,
+      ]);
+    }
+  }
+
+  return (
+    (await db.orderCancellation.findUnique({
+      where: { id: cancellation.id },
+    })) ?? cancellation
+  );
+}
+
+/**
+ * Checks the orderCancel job a few times, so quick jobs are finished
+ * before responding. Returns the cancellation, which may still be pending.
+ */
+export async function waitForOrderCancellationJob(
+  admin: AdminApiContext,
+  cancellation: OrderCancellation,
+): Promise<OrderCancellation> {
+  let current = cancellation;
+
+  for (let attempt = 0; attempt < JOB_WAIT_ATTEMPTS; attempt++) {
+    if (attempt > 0) {
+      await new Promise((resolve) => setTimeout(resolve, JOB_WAIT_INTERVAL_MS));
+    }
+
+    current = await syncOrderCancellationJob(admin, current);
+    if (current.status !== "pending") {
+      break;
+    }
+  }
+
+  return current;
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import { getStoreCreditBonus, planRestock } from "./cancellation-refund.server";
+
+function fulfillmentOrder(
+  locationId: string | null,
+  lineItems: { inventoryItemId: string; remainingQuantity: number }[],
+) {
+  return {
+    assignedLocation: { location: locationId ? { id: locationId } : null },
+    lineItems: { nodes: lineItems },
+  };
+}
+
+describe("getStoreCreditBonus", () => {
+  it("is a percentage of what was paid, rounded to the cent", () => {
+    expect(getStoreCreditBonus(49.99, 10)).toBe(5);
+    expect(getStoreCreditBonus(20, 12.5)).toBe(2.5);
+  });
+
+  it("is nothing without a bonus or a payment", () => {
+    expect(getStoreCreditBonus(50, null)).toBe(0);
+    expect(getStoreCreditBonus(0, 10)).toBe(0);
+  });
+});
+
+describe("planRestock", () => {
+  const item = {
+    inventoryItemId: "gid://shopify/InventoryItem/1",
+    remainingQuantity: 2,
+  };
+
+  it("lets orderCancel restock when no location is excluded", () => {
+    expect(
+      planRestock(
+        [fulfillmentOrder("gid://shopify/Location/1", [item])],
+        ["gid://shopify/Location/2"],
+      ),
+    ).toEqual({ restock: true, adjustments: [] });
+  });
+
+  it("only restocks the locations that aren't excluded", () => {
+    expect(
+      planRestock(
+        [
+          fulfillmentOrder("gid://shopify/Location/1", [item]),
+          fulfillmentOrder("gid://shopify/Location/1", [item]),
+          fulfillmentOrder("gid://shopify/Location/2", [item]),
+        ],
+        ["gid://shopify/Location/2"],
+      ),
+    ).toEqual({
+      restock: false,
+      adjustments: [
+        {
+          inventoryItemId: "gid://shopify/InventoryItem/1",
+          locationId: "gid://shopify/Location/1",
+          delta: 4,
+        },
+      ],
+    });
+  });
+
+  it("doesn't restock items without a location", () => {
+    expect(
+      planRestock(
+        [fulfillmentOrder(null, [item])],
+        ["gid://shopify/Location/2"],
+      ),
+    ).toEqual({ restock: false, adjustments: [] });
+  });
+});
@@ -0,0 +1,271 @@
+import type { AdminApiContext } from "@shopify/shopify-app-react-router/server";
+
+// How customers can be refunded when they cancel an order
+export const REFUND_METHODS = ["original_payment", "store_credit"] as const;
+
+export type RefundMethod = (typeof REFUND_METHODS)[number];
+
+export const REFUND_METHOD_LABELS: Record<RefundMethod, string> = {
+  original_payment: "Original payment method",
+  store_credit: "Store credit",
+};
+
+export function isRefundMethod(method: string): method is RefundMethod {
+  return (REFUND_METHODS as readonly string[]).includes(method);
+}
+
+/**
+ * orderCancel's refundMethod input for the customer's choice. Store credit
+ * is only refunded to the order's customer, so guest orders can't use it.
+ */
+export function getOrderCancelRefundMethod(refundMethod: RefundMethod) {
+  return refundMethod === "store_credit"
+    ? { storeCreditRefund: {} }
+    : { originalPaymentMethodsRefund: true };
+}
+
+/**
+ * The extra store credit a customer gets for taking store credit instead
+ * of their money back, rounded to the cent.
+ */
+export function getStoreCreditBonus(
+  refundedAmount: number,
+  bonusPercent: number | null,
+): number {
+  if (!bonusPercent || refundedAmount <= 0) {
+    return 0;
+  }
+
+  return Math.round(refundedAmount * bonusPercent) / 100;
+}
+
+/**
+ * Adds the store credit bonus to the customer's store credit account.
+ *
+ * Returns an error message, or null on success.
+ */
+export async function creditStoreCreditBonus(
+  admin: AdminApiContext,
+  customerId: string,
+  amount: { amount: number; currencyCode: string },
+): Promise<string | null> {
+  const response = await admin.graphql(
+    `#graphql
+    mutation CreditStoreCreditBonus($id: ID!, $creditInput: StoreCreditAccountCreditInput!) {
+      storeCreditAccountCredit(id: $id, creditInput: $creditInput) {
+        userErrors {
+          field
+          message
+        }
+      }
+    }`,
+    {
+      variables: {
+        id: customerId,
+        creditInput: {
+          creditAmount: {
+            amount: amount.amount.toFixed(2),
+            currencyCode: amount.currencyCode,
+          },
+        },
+      },
+    }
+  );
+
+  const json = await response.json();
+  const userErrors: { message: string }[] =
+    json.data?.storeCreditAccountCredit?.userErrors || [];
+
+  if (userErrors.length > 0) {
+    console.error("Failed to credit store credit bonus:", userErrors);
+    return userErrors.map((e) => e.message).join(", ");
+  }
+
+  return null;
+}
+
+/**
+ * Inventory to put back by hand at one location, since orderCancel can
+ * only restock all of an order's items or none of them.
+ */
+export interface RestockAdjustment {
+  inventoryItemId: string;
+  locationId: string;
+  delta: number;
+}
+
+export interface RestockPlan {
+  // Whether orderCancel restocks the order itself
+  restock: boolean;
+  adjustments: RestockAdjustment[];
+}
+
+interface FulfillmentOrderNode {
+  assignedLocation: { location: { id: string } | null };
+  lineItems: {
+    nodes: { inventoryItemId: string | null; remainingQuantity: number }[];
+  };
+}
+
+/**
+ * Plans restocking a cancelled order when some locations shouldn't be
+ * restocked. orderCancel restocks everything when none of the order's
+ * locations are excluded. Otherwise it restocks nothing, and the items
+ * at the other locations are adjusted after the order is cancelled.
+ */
+export function planRestock(
+  fulfillmentOrders: FulfillmentOrderNode[],
+  excludedLocationIds: string[],
+): RestockPlan {
+  const isExcluded = (fulfillmentOrder: FulfillmentOrderNode) => {
+    const locationId = fulfillmentOrder.assignedLocation.location?.id;
+    return !locationId || excludedLocationIds.includes(locationId);
+  };
+
+  if (!fulfillmentOrders.some(isExcluded)) {
+    return { restock: true, adjustments: [] };
+  }
+
+  const adjustments = new Map<string, RestockAdjustment>();
+  for (const fulfillmentOrder of fulfillmentOrders) {
+    if (isExcluded(fulfillmentOrder)) continue;
+
+    const locationId = fulfillmentOrder.assignedLocation.location!.id;
+    for (const lineItem of fulfillmentOrder.lineItems.nodes) {
+      if (!lineItem.inventoryItemId || lineItem.remainingQuantity <= 0) {
+        continue;
+      }
+
+      const key = `${lineItem.inventoryItemId}@${locationId}`;
+      const adjustment = adjustments.get(key) ?? {
+        inventoryItemId: lineItem.inventoryItemId,
+        locationId,
+        delta: 0,
+      };
+      adjustment.delta += lineItem.remainingQuantity;
+      adjustments.set(key, adjustment);
+    }
+  }
+
+  return { restock: false, adjustments: Array.from(adjustments.values()) };
+}
+
+/**
+ * Fetches where an order's items are fulfilled from and plans restocking
+ * them when it's cancelled.
+ */
+export async function getRestockPlan(
+  admin: AdminApiContext,
+  orderId: string,
+  excludedLocationIds: string[],
+): Promise<RestockPlan> {
+  if (excludedLocationIds.length === 0) {
+    return { restock: true, adjustments: [] };
+  }
+
+  const response = await admin.graphql(
+    `#graphql
+    query GetOrderFulfillmentLocations($id: ID!) {
+      order(id: $id) {
+        fulfillmentOrders(first: 20) {
+          nodes {
+            assignedLocation {
+              location {
+                id
+              }
+            }
+            lineItems(first: 100) {
+              nodes {
+                inventoryItemId
+                remainingQuantity
+              }
+            }
+          }
+        }
+      }
+    }`,
+    {
+      variables: { id: orderId },
+    }
+  );
+
+  const json = await response.json();
+  return planRestock(
+    json.data?.order?.fulfillmentOrders?.nodes ?? [],
+    excludedLocationIds,
+  );
+}
+
+/**
+ * Puts the planned items back in stock at their locations.
+ *
+ * Returns an error message, or null on success.
+ */
+export async function restockInventory(
+  admin: AdminApiContext,
+  adjustments: RestockAdjustment[],
+): Promise<string | null> {
+  if (adjustments.length === 0) {
+    return null;
+  }
+
+  const response = await admin.graphql(
+    `#graphql
+    mutation RestockCancelledOrder($input: InventoryAdjustQuantitiesInput!) {
+      inventoryAdjustQuantities(input: $input) {
+        userErrors {
+          field
+          message
+        }
+      }
+    }`,
+    {
+      variables: {
+        input: {
+          name: "available",
+          reason: "restock",
+          changes: adjustments,
+        },
+      },
+    }
+  );
+
+  const json = await response.json();
+  const userErrors: { message: string }[] =
+    json.data?.inventoryAdjustQuantities?.userErrors || [];
+
+  if (userErrors.length > 0) {
+    console.error("Failed to restock cancelled order:", userErrors);
+    return userErrors.map((e) => e.message).join(", ");
+  }
+
+  return null;
+}
+
+export interface ShopLocation {
+  id: string;
+  name: string;
+}
+
+/**
+ * The shop's active locations, for choosing where cancelled orders are
+ * restocked.
+ */
+export async function getShopLocations(
+  admin: AdminApiContext,
+): Promise<ShopLocation[]> {
+  const response = await admin.graphql(
+    `#graphql
+    query GetShopLocations {
+      locations(first: 50) {
+        nodes {
+          id
+          name
+        }
+      }
+    }`
+  );
+
+  const json = await response.json();
+  return json.data?.locations?.nodes ?? [];
+}
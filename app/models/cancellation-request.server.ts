@@ -0,0 +1,160 @@
+import type { AdminApiContext } from "@shopify/shopify-app-react-router/server";
+import type { CancellationRequest } from "@prisma/client";
+import db from "../db.server";
+import {
+  cancelCustomerOrder,
+  getCancellableOrder,
+  getCancellationPolicy,
+  isCancellationReason,
+} from "./order-cancel.server";
+import type { CustomerCancellation } from "./order-cancel.server";
+import { isRefundMethod } from "./cancellation-refund.server";
+import { waitForOrderCancellationJob } from "./cancellation-job.server";
+
+/**
+ * A request waits as pending until the merchant approves it, which cancels
+ * the order, or denies it.
+ */
+export type CancellationRequestStatus = "pending" | "approved" | "denied";
+
+// Matches the customer's note limit in validateCancellationReason
+export const DECISION_NOTE_MAX_LENGTH = 500;
+
+/**
+ * The latest cancellation request for an order, or null when there's none.
+ * Pass the customer's id to only find requests they made.
+ */
+export async function findCancellationRequest(
+  shop: string,
+  orderId: string,
+  customerId?: string,
+) {
+  return db.cancellationRequest.findFirst({
+    where: { shop, orderId, ...(customerId ? { customerId } : {}) },
+    orderBy: { createdAt: "desc" },
+  });
+}
+
+export async function getCancellationRequest(shop: string, id: number) {
+  return db.cancellationRequest.findFirst({
+    where: { id, shop },
+  });
+}
+
+/**
+ * Records a customer's request to cancel an order. Asking again while a
+ * request is pending returns that request instead of adding another, and
+ * so does asking after it was denied, as the merchant's decision stands.
+ */
+export async function createCancellationRequest({
+  shop,
+  order,
+  customerId,
+  reason,
+  note,
+  refundMethod,
+}: CustomerCancellation) {
+  const existing = await db.cancellationRequest.findFirst({
+    where: { shop, orderId: order.id, status: { in: ["pending", "denied"] } },
+    orderBy: { createdAt: "desc" },
+  });
+
+  if (existing) {
+    return existing;
+  }
+
+  return db.cancellationRequest.create({
+    data: { shop, orderId: order.id, customerId, reason, note, refundMethod },
+  });
+}
+
+export function validateDecisionNote(note: string | null): string | null {
+  if (note && note.length > DECISION_NOTE_MAX_LENGTH) {
+    return `Note must be ${DECISION_NOTE_MAX_LENGTH} characters or fewer`;
+  }
+
+  return null;
+}
+
+async function decideCancellationRequest(
+  request: CancellationRequest,
+  status: CancellationRequestStatus,
+  decisionNote: string | null,
+) {
+  return db.cancellationRequest.update({
+    where: { id: request.id },
+    data: { status, decisionNote, decidedAt: new Date() },
+  });
+}
+
+/**
+ * Approves a pending request by cancelling the order the way the customer
+ * would have, with their reason and refund method. The request stays
+ * pending when the order can't be cancelled, so the merchant can try again
+ * or deny it. It's approved while the cancellation is still running.
+ *
+ * Returns an error message, or null on success.
+ */
+export async function approveCancellationRequest(
+  admin: AdminApiContext,
+  request: CancellationRequest,
+  decisionNote: string | null,
+): Promise<string | null> {
+  if (request.status !== "pending") {
+    return "This request was already decided";
+  }
+
+  if (!isCancellationReason(request.reason)) {
+    return "This request has an unknown reason";
+  }
+  if (!isRefundMethod(request.refundMethod)) {
+    return "This request has an unknown refund method";
+  }
+
+  const order = await getCancellableOrder(admin, request.orderId);
+  if (!order) {
+    return "Order not found";
+  }
+
+  const { cancellation, userErrors } = await cancelCustomerOrder(
+    admin,
+    {
+      shop: request.shop,
+      order,
+      customerId: request.customerId,
+      reason: request.reason,
+      note: request.note,
+      refundMethod: request.refundMethod,
+    },
+    await getCancellationPolicy(request.shop),
+  );
+
+  if (userErrors.length > 0) {
+    return userErrors.map((e) => e.message).join(", ");
+  }
+
+  const result = await waitForOrderCancellationJob(admin, cancellation!);
+  if (result.status === "failed") {
+    return result.error;
+  }
+
+  await decideCancellationRequest(request, "approved", decisionNote);
+  return null;
+}
+
+/**
+ * Denies a pending request. The note is shown to the customer.
+ *
+ * Returns an error message, or null on success.
+ */
+export async function denyCancellationRequest(
+  request: CancellationRequest,
+  decisionNote: string | null,
+): Promise<string | null> {
+  if (request.status !== "pending") {
+    return "This request was already decided";
+  }
+
+  await decideCancellationRequest(request, "denied", decisionNote);
+  return null;
+}
@@ -0,0 +1,138 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  evaluateCancellationPolicy,
+  getCancellationStaffNote,
+  isOrderOwnedByCustomer,
+  requiresCancellationApproval,
+  validateCancellationReason,
+} from "./order-cancel.server";
+import type {
+  CancellableOrder,
+  CancellationPolicy,
+} from "./order-cancel.server";
+
+vi.mock("../db.server", () => ({ default: {} }));
+
+describe("isOrderOwnedByCustomer", () => {
+  const order = { customer: { id: "gid://shopify/Customer/1" } };
+
+  it("is true for the customer who placed the order", () => {
+    expect(isOrderOwnedByCustomer(order, "gid://shopify/Customer/1")).toBe(
+      true,
+    );
+  });
+
+  it("is false for another customer", () => {
+    expect(isOrderOwnedByCustomer(order, "gid://shopify/Customer/2")).toBe(
+      false,
+    );
+  });
+
+  it("is false without a customer in the session token", () => {
+    expect(isOrderOwnedByCustomer(order, undefined)).toBe(false);
+  });
+
+  it("is false for guest orders", () => {
+    expect(
+      isOrderOwnedByCustomer({ customer: null }, "gid://shopify/Customer/1"),
+    ).toBe(false);
+  });
+});
+
+describe("validateCancellationReason", () => {
+  it("accepts a known reason without a note", () => {
+    expect(validateCancellationReason("wrong_item", null)).toBeNull();
+  });
+
+  it("rejects unknown reasons", () => {
+    expect(validateCancellationReason("bored", null)).not.toBeNull();
+  });
+
+  it("needs a note for other reasons", () => {
+    expect(validateCancellationReason("other", null)).not.toBeNull();
+    expect(validateCancellationReason("other", "Too expensive")).toBeNull();
+  });
+});
+
+describe("getCancellationStaffNote", () => {
+  it("names the reason and quotes the customer's note", () => {
+    expect(getCancellationStaffNote("shipping_too_slow", "Need it by Friday")).toBe(
+      'Cancelled by the customer: Shipping is too slow. "Need it by Friday"',
+    );
+  });
+
+  it("fits orderCancel's staff note limit", () => {
+    const staffNote = getCancellationStaffNote("other", "a".repeat(500));
+
+    expect(staffNote).toHaveLength(255);
+    expect(staffNote.endsWith("…")).toBe(true);
+  });
+});
+
+describe("requiresCancellationApproval", () => {
+  const policy: CancellationPolicy = {
+    windowMinutes: null,
+    requireUnfulfilled: false,
+    requireUncaptured: false,
+    excludedProductTags: [],
+    maxOrderValue: null,
+    approvalAboveValue: null,
+    approvalWhenPaid: false,
+    refundToOriginalPayment: true,
+    refundToStoreCredit: false,
+    storeCreditBonusPercent: null,
+    excludedRestockLocationIds: [],
+  };
+
+  const order: CancellableOrder = {
+    id: "gid://shopify/Order/1",
+    customer: { id: "gid://shopify/Customer/1" },
+    createdAt: new Date().toISOString(),
+    displayFulfillmentStatus: "UNFULFILLED",
+    displayFinancialStatus: "PAID",
+    totalPriceSet: { shopMoney: { amount: "50.0" } },
+    totalReceivedSet: {
+      presentmentMoney: { amount: "50.0", currencyCode: "CAD" },
+    },
+    lineItems: { nodes: [] },
+  };
+
+  it("isn't needed by default", () => {
+    expect(requiresCancellationApproval(order, policy)).toBe(false);
+  });
+
+  it("is needed for orders above the approval value", () => {
+    expect(
+      requiresCancellationApproval(order, { ...policy, approvalAboveValue: 49 }),
+    ).toBe(true);
+    expect(
+      requiresCancellationApproval(order, { ...policy, approvalAboveValue: 50 }),
+    ).toBe(false);
+  });
+
+  it("is needed for paid orders when the policy asks for it", () => {
+    const paidPolicy = { ...policy, approvalWhenPaid: true };
+
+    expect(requiresCancellationApproval(order, paidPolicy)).toBe(true);
+    expect(
+      requiresCancellationApproval(
+        { ...order, displayFinancialStatus: "PENDING" },
+        paidPolicy,
+      ),
+    ).toBe(false);
+  });
+
+  it("is asked for instead of refusing paid orders", () => {
+    const uncapturedPolicy = { ...policy, requireUncaptured: true };
+
+    expect(evaluateCancellationPolicy(order, uncapturedPolicy)).toMatchObject({
+      code: "payment_captured",
+    });
+    expect(
+      evaluateCancellationPolicy(order, {
+        ...uncapturedPolicy,
+        approvalWhenPaid: true,
+      }),
+    ).toBeNull();
+  });
+});
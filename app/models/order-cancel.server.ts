@@ -0,0 +1,741 @@
+import type { AdminApiContext } from "@shopify/shopify-app-react-router/server";
+import db from "../db.server";
+import type { OrderCancellation } from "@prisma/client";
+import {
+  getOrderCancelRefundMethod,
+  getRestockPlan,
+  getStoreCreditBonus,
+  isRefundMethod,
+} from "./cancellation-refund.server";
+import type {
+  RefundMethod,
+  RestockAdjustment,
+} from "./cancellation-refund.server";
+
+/**
+ * A shop's rules for which orders customers can cancel themselves. Null
+ * limits and empty tags don't restrict anything. Order values are in the
+ * shop's currency.
+ *
+ * Orders above the approval value, or already paid for when approval is
+ * required for paid orders, aren't cancelled right away. The customer's
+ * request waits for the merchant to approve it instead.
+ *
+ * Customers choose between the refund methods the shop offers. Store
+ * credit can come with a bonus, as a percentage of what was paid. Items
+ * are put back in stock except at the excluded locations.
+ */
+export interface CancellationPolicy {
+  windowMinutes: number | null;
+  requireUnfulfilled: boolean;
+  requireUncaptured: boolean;
+  excludedProductTags: string[];
+  maxOrderValue: number | null;
+  approvalAboveValue: number | null;
+  approvalWhenPaid: boolean;
+  refundToOriginalPayment: boolean;
+  refundToStoreCredit: boolean;
+  storeCreditBonusPercent: number | null;
+  excludedRestockLocationIds: string[];
+}
+
+/**
+ * The order details the cancellation policy is evaluated against.
+ */
+export interface CancellableOrder {
+  id: string;
+  customer: { id: string } | null;
+  createdAt: string;
+  displayFulfillmentStatus: string;
+  displayFinancialStatus: string | null;
+  totalPriceSet: { shopMoney: { amount: string } };
+  totalReceivedSet: {
+    presentmentMoney: { amount: string; currencyCode: string };
+  };
+  lineItems: {
+    nodes: {
+      title: string;
+      quantity: number;
+      product: { id: string; tags: string[] } | null;
+    }[];
+  };
+}
+
+/**
+ * Why the policy doesn't let an order be cancelled, shown to the customer.
+ */
+export interface CancellationRejection {
+  code:
+    | "outside_window"
+    | "fulfilled"
+    | "payment_captured"
+    | "excluded_product"
+    | "over_max_value";
+  message: string;
+}
+
+export interface OrderCancelUserError {
+  code?: string;
+  field?: string[];
+  message: string;
+}
+
+// Why customers cancel, picked in the customer account extension
+export const CANCELLATION_REASONS = [
+  "wrong_item",
+  "found_cheaper",
+  "shipping_too_slow",
+  "other",
+] as const;
+
+export type CancellationReason = (typeof CANCELLATION_REASONS)[number];
+
+export const CANCELLATION_REASON_LABELS: Record<CancellationReason, string> = {
+  wrong_item: "Ordered the wrong item",
+  found_cheaper: "Found it cheaper elsewhere",
+  shipping_too_slow: "Shipping is too slow",
+  other: "Other",
+};
+
+const CANCELLATION_NOTE_MAX_LENGTH = 500;
+
+// orderCancel rejects longer staff notes
+const STAFF_NOTE_MAX_LENGTH = 255;
+
+/**
+ * Cancellation reasons by product over a period. A cancelled order counts
+ * once for each of its products.
+ */
+export interface CancellationProductReasons {
+  productId: string | null;
+  title: string;
+  cancellations: number;
+  reasons: Record<CancellationReason, number>;
+}
+
+export interface CancellationReport {
+  reasons: Record<CancellationReason, number>;
+  products: CancellationProductReasons[];
+  notes: {
+    orderId: string;
+    reason: CancellationReason;
+    note: string;
+    createdAt: Date;
+  }[];
+}
+
+// Orders nothing was shipped for yet
+const UNFULFILLED_STATUSES = [
+  "UNFULFILLED",
+  "OPEN",
+  "PENDING_FULFILLMENT",
+  "SCHEDULED",
+  "ON_HOLD",
+];
+
+// Orders whose payment was at least partly captured
+const CAPTURED_FINANCIAL_STATUSES = [
+  "PAID",
+  "PARTIALLY_PAID",
+  "PARTIALLY_REFUNDED",
+  "REFUNDED",
+];
+
+/**
+ * Returns the cancellation settings for a shop, creating the defaults the
+ * first time the shop is seen.
+ */
+export async function getCancellationSettings(shop: string) {
+  return db.cancellationSettings.upsert({
+    where: { shop },
+    create: { shop },
+    update: {},
+  });
+}
+
+export async function getCancellationPolicy(
+  shop: string,
+): Promise<CancellationPolicy> {
+  const settings = await getCancellationSettings(shop);
+
+  return {
+    windowMinutes: settings.windowMinutes,
+    requireUnfulfilled: settings.requireUnfulfilled,
+    requireUncaptured: settings.requireUncaptured,
+    excludedProductTags: settings.excludedProductTags
+      ? JSON.parse(settings.excludedProductTags)
+      : [],
+    maxOrderValue: settings.maxOrderValue,
+    approvalAboveValue: settings.approvalAboveValue,
+    approvalWhenPaid: settings.approvalWhenPaid,
+    refundToOriginalPayment: settings.refundToOriginalPayment,
+    refundToStoreCredit: settings.refundToStoreCredit,
+    storeCreditBonusPercent: settings.storeCreditBonusPercent,
+    excludedRestockLocationIds: settings.excludedRestockLocationIds
+      ? JSON.parse(settings.excludedRestockLocationIds)
+      : [],
+  };
+}
+
+/**
+ * Returns a validation error for the cancellation policy, or null when
+ * it's valid.
+ */
+export function validateCancellationPolicy(
+  policy: CancellationPolicy,
+): string | null {
+  if (
+    policy.windowMinutes !== null &&
+    (!Number.isInteger(policy.windowMinutes) || policy.windowMinutes < 1)
+  ) {
+    return "The cancellation window must be a whole number of at least 1 minute";
+  }
+  if (
+    policy.maxOrderValue !== null &&
+    (!Number.isFinite(policy.maxOrderValue) || policy.maxOrderValue <= 0)
+  ) {
+    return "The maximum order value must be greater than 0";
+  }
+  if (
+    policy.approvalAboveValue !== null &&
+    (!Number.isFinite(policy.approvalAboveValue) ||
+      policy.approvalAboveValue <= 0)
+  ) {
+    return "The order value needing approval must be greater than 0";
+  }
+  if (policy.excludedProductTags.some((tag) => !tag)) {
+    return "Product tags can't be empty";
+  }
+  if (!policy.refundToOriginalPayment && !policy.refundToStoreCredit) {
+    return "Offer at least one refund method";
+  }
+  if (
+    policy.storeCreditBonusPercent !== null &&
+    (!Number.isFinite(policy.storeCreditBonusPercent) ||
+      policy.storeCreditBonusPercent <= 0 ||
+      policy.storeCreditBonusPercent > 100)
+  ) {
+    return "The store credit bonus must be between 0 and 100%";
+  }
+
+  return null;
+}
+
+/**
+ * Saves the shop's cancellation policy. Callers validate it first.
+ */
+export async function updateCancellationPolicy(
+  shop: string,
+  policy: CancellationPolicy,
+) {
+  await getCancellationSettings(shop);
+
+  return db.cancellationSettings.update({
+    where: { shop },
+    data: {
+      ...policy,
+      excludedProductTags: JSON.stringify(policy.excludedProductTags),
+      excludedRestockLocationIds: JSON.stringify(
+        policy.excludedRestockLocationIds,
+      ),
+    },
+  });
+}
+
+/**
+ * Fetches what the cancellation policy needs to know about an order, or
+ * null when the order doesn't exist.
+ */
+export async function getCancellableOrder(
+  admin: AdminApiContext,
+  orderId: string,
+): Promise<CancellableOrder | null> {
+  const response = await admin.graphql(
+    `#graphql
+    query GetCancellableOrder($id: ID!) {
+      order(id: $id) {
+        id
+        customer {
+          id
+        }
+        createdAt
+        displayFulfillmentStatus
+        displayFinancialStatus
+        totalPriceSet {
+          shopMoney {
+            amount
+          }
+        }
+        totalReceivedSet {
+          presentmentMoney {
+            amount
+            currencyCode
+          }
+        }
+        lineItems(first: 100) {
+          nodes {
+            title
+            quantity
+            product {
+              id
+              tags
+            }
+          }
+        }
+      }
+    }`,
+    {
+      variables: { id: orderId },
+    }
+  );
+
+  const json = await response.json();
+  return json.data?.order ?? null;
+}
+
+/**
+ * Whether the customer can only request the order's cancellation, for the
+ * merchant to approve, instead of cancelling it right away.
+ */
+export function requiresCancellationApproval(
+  order: CancellableOrder,
+  policy: CancellationPolicy,
+): boolean {
+  if (
+    policy.approvalAboveValue !== null &&
+    Number(order.totalPriceSet.shopMoney.amount) > policy.approvalAboveValue
+  ) {
+    return true;
+  }
+
+  return Boolean(
+    policy.approvalWhenPaid &&
+      order.displayFinancialStatus &&
+      CAPTURED_FINANCIAL_STATUSES.includes(order.displayFinancialStatus),
+  );
+}
+
+/**
+ * The refund methods the shop lets customers choose from.
+ */
+export function getAllowedRefundMethods(
+  policy: CancellationPolicy,
+): RefundMethod[] {
+  return [
+    ...(policy.refundToOriginalPayment ? ["original_payment" as const] : []),
+    ...(policy.refundToStoreCredit ? ["store_credit" as const] : []),
+  ];
+}
+
+/**
+ * Returns a validation error for the customer's refund method, or null
+ * when the shop offers it.
+ */
+export function validateRefundMethod(
+  refundMethod: string,
+  policy: CancellationPolicy,
+): string | null {
+  if (
+    !isRefundMethod(refundMethod) ||
+    !getAllowedRefundMethods(policy).includes(refundMethod)
+  ) {
+    return "Choose how you'd like to be refunded";
+  }
+
+  return null;
+}
+
+/**
+ * Whether the order was placed by the customer a customer account session
+ * token was issued for, whose `sub` is the customer's id. Guest orders
+ * have no customer, so no customer can cancel them.
+ */
+export function isOrderOwnedByCustomer(
+  order: Pick<CancellableOrder, "customer">,
+  customerId: string | undefined,
+): boolean {
+  return Boolean(customerId && order.customer?.id === customerId);
+}
+
+/**
+ * Checks an order against the shop's cancellation policy. Returns why the
+ * customer can't cancel it, or null when they can.
+ */
+export function evaluateCancellationPolicy(
+  order: CancellableOrder,
+  policy: CancellationPolicy,
+  now = new Date(),
+): CancellationRejection | null {
+  if (policy.windowMinutes !== null) {
+    const deadline =
+      new Date(order.createdAt).getTime() + policy.windowMinutes * 60 * 1000;
+    if (now.getTime() > deadline) {
+      return {
+        code: "outside_window",
+        message: `Orders can only be cancelled within ${policy.windowMinutes} minutes of being placed`,
+      };
+    }
+  }
+
+  if (
+    policy.requireUnfulfilled &&
+    !UNFULFILLED_STATUSES.includes(order.displayFulfillmentStatus)
+  ) {
+    return {
+      code: "fulfilled",
+      message: "This order is already being fulfilled, so it can't be cancelled",
+    };
+  }
+
+  // Shops that approve paid orders get a request for them instead
+  if (
+    policy.requireUncaptured &&
+    !policy.approvalWhenPaid &&
+    order.displayFinancialStatus &&
+    CAPTURED_FINANCIAL_STATUSES.includes(order.displayFinancialStatus)
+  ) {
+    return {
+      code: "payment_captured",
+      message: "This order was already paid for, so it can't be cancelled",
+    };
+  }
+
+  const excludedTags = policy.excludedProductTags.map((tag) =>
+    tag.toLowerCase(),
+  );
+  if (
+    excludedTags.length > 0 &&
+    order.lineItems.nodes.some((lineItem) =>
+      lineItem.product?.tags.some((tag) =>
+        excludedTags.includes(tag.toLowerCase()),
+      ),
+    )
+  ) {
+    return {
+      code: "excluded_product",
+      message: "This order contains items that can't be cancelled",
+    };
+  }
+
+  if (
+    policy.maxOrderValue !== null &&
+    Number(order.totalPriceSet.shopMoney.amount) > policy.maxOrderValue
+  ) {
+    return {
+      code: "over_max_value",
+      message: "Orders of this value can't be cancelled online. Contact us to cancel it",
+    };
+  }
+
+  return null;
+}
+
+export function isCancellationReason(reason: string): reason is CancellationReason {
+  return (CANCELLATION_REASONS as readonly string[]).includes(reason);
+}
+
+/**
+ * Returns a validation error for the reason a customer gave, or null when
+ * it's valid. "Other" needs the customer to say why.
+ */
+export function validateCancellationReason(
+  reason: string,
+  note: string | null,
+): string | null {
+  if (!isCancellationReason(reason)) {
+    return "Choose why you're cancelling the order";
+  }
+  if (reason === "other" && !note) {
+    return "Tell us why you're cancelling the order";
+  }
+  if (note && note.length > CANCELLATION_NOTE_MAX_LENGTH) {
+    return `Keep the reason under ${CANCELLATION_NOTE_MAX_LENGTH} characters`;
+  }
+
+  return null;
+}
+
+/**
+ * The staff note orderCancel adds to the order, with the customer's reason.
+ */
+export function getCancellationStaffNote(
+  reason: CancellationReason,
+  note: string | null,
+): string {
+  const staffNote = `Cancelled by the customer: ${CANCELLATION_REASON_LABELS[reason]}${note ? `. "${note}"` : ""}`;
+
+  return staffNote.length > STAFF_NOTE_MAX_LENGTH
+    ? `${staffNote.slice(0, STAFF_NOTE_MAX_LENGTH - 1)}…`
+    : staffNote;
+}
+
+/**
+ * Adds tags to an order.
+ *
+ * Returns an error message, or null on success.
+ */
+export async function addOrderTags(
+  admin: AdminApiContext,
+  orderId: string,
+  tags: string[],
+): Promise<string | null> {
+  const response = await admin.graphql(
+    `#graphql
+    mutation AddOrderTags($id: ID!, $tags: [String!]!) {
+      tagsAdd(id: $id, tags: $tags) {
+        userErrors {
+          field
+          message
+        }
+      }
+    }`,
+    {
+      variables: {
+        id: orderId,
+        tags,
+      },
+    }
+  );
+
+  const json = await response.json();
+  const userErrors: { message: string }[] =
+    json.data?.tagsAdd?.userErrors || [];
+
+  if (userErrors.length > 0) {
+    console.error("Failed to tag order:", userErrors);
+    return userErrors.map((e) => e.message).join(", ");
+  }
+
+  return null;
+}
+
+/**
+ * Tags the order with the customer's reason, like
+ * "cancel-reason-found-cheaper", so orders can be filtered by it.
+ *
+ * Returns an error message, or null on success.
+ */
+export async function tagCancelledOrder(
+  admin: AdminApiContext,
+  orderId: string,
+  reason: CancellationReason,
+): Promise<string | null> {
+  return addOrderTags(admin, orderId, [
+    `cancel-reason-${reason.replace(/_/g, "-")}`,
+  ]);
+}
+
+/**
+ * A customer's cancellation of one of their orders, with their reason and
+ * how they want to be refunded.
+ */
+export interface CustomerCancellation {
+  shop: string;
+  order: CancellableOrder;
+  customerId: string;
+  reason: CancellationReason;
+  note: string | null;
+  refundMethod: RefundMethod;
+}
+
+/**
+ * Records a customer's cancellation with its reason and the order's
+ * products, for the cancellation report, along with the orderCancel job
+ * and what's left to do once the job has cancelled the order.
+ */
+export async function recordOrderCancellation(
+  { shop, order, customerId, reason, note, refundMethod }: CustomerCancellation,
+  {
+    jobId,
+    restockAdjustments,
+    storeCreditBonus,
+  }: {
+    jobId: string | null;
+    restockAdjustments: RestockAdjustment[];
+    storeCreditBonus: { amount: number; currencyCode: string } | null;
+  },
+) {
+  return db.orderCancellation.create({
+    data: {
+      shop,
+      orderId: order.id,
+      customerId,
+      reason,
+      note,
+      refundMethod,
+      jobId,
+      restockAdjustments: restockAdjustments.length
+        ? JSON.stringify(restockAdjustments)
+        : null,
+      storeCreditBonus: storeCreditBonus?.amount ?? null,
+      storeCreditBonusCurrency: storeCreditBonus?.currencyCode ?? null,
+      items: {
+        create: order.lineItems.nodes.map((lineItem) => ({
+          productId: lineItem.product?.id ?? null,
+          title: lineItem.title,
+          quantity: lineItem.quantity,
+        })),
+      },
+    },
+  });
+}
+
+/**
+ * Starts cancelling a customer's order with their reason in the staff
+ * note, refunded the way they chose and restocked following the policy,
+ * and records it for the cancellation report. Callers check the order is
+ * the customer's and the policy allows it first.
+ *
+ * orderCancel only starts a job. The recorded cancellation stays pending
+ * until syncOrderCancellationJob sees the job finish.
+ *
+ * Returns the recorded cancellation, or orderCancel's user errors.
+ */
+export async function cancelCustomerOrder(
+  admin: AdminApiContext,
+  cancellation: CustomerCancellation,
+  policy: CancellationPolicy,
+): Promise<{
+  cancellation: OrderCancellation | null;
+  userErrors: OrderCancelUserError[];
+}> {
+  const { order, reason, note, refundMethod } = cancellation;
+  const restockPlan = await getRestockPlan(
+    admin,
+    order.id,
+    policy.excludedRestockLocationIds,
+  );
+
+  const response = await admin.graphql(
+    `#graphql
+    mutation orderCancel(
+      $orderId: ID!
+      $restock: Boolean!
+      $refundMethod: OrderCancelRefundMethodInput!
+      $staffNote: String
+    ) {
+      orderCancel(
+        orderId: $orderId
+        reason: CUSTOMER
+        restock: $restock
+        refundMethod: $refundMethod
+        staffNote: $staffNote
+      ) {
+        job { id }
+        orderCancelUserErrors { code field message }
+      }
+    }`,
+    {
+      variables: {
+        orderId: order.id,
+        restock: restockPlan.restock,
+        refundMethod: getOrderCancelRefundMethod(refundMethod),
+        staffNote: getCancellationStaffNote(reason, note),
+      },
+    }
+  );
+
+  const data = await response.json();
+  const userErrors: OrderCancelUserError[] =
+    data.data?.orderCancel?.orderCancelUserErrors || [];
+
+  if (userErrors.length > 0) {
+    return { cancellation: null, userErrors };
+  }
+
+  const received = order.totalReceivedSet.presentmentMoney;
+  const bonus =
+    refundMethod === "store_credit"
+      ? getStoreCreditBonus(
+          Number(received.amount),
+          policy.storeCreditBonusPercent,
+        )
+      : 0;
+
+  return {
+    cancellation: await recordOrderCancellation(cancellation, {
+      jobId: data.data?.orderCancel?.job?.id ?? null,
+      restockAdjustments: restockPlan.adjustments,
+      storeCreditBonus:
+        bonus > 0 ? { amount: bonus, currencyCode: received.currencyCode } : null,
+    }),
+    userErrors: [],
+  };
+}
+
+function emptyReasonCounts(): Record<CancellationReason, number> {
+  return Object.fromEntries(
+    CANCELLATION_REASONS.map((reason) => [reason, 0]),
+  ) as Record<CancellationReason, number>;
+}
+
+/**
+ * Aggregates the reasons customers gave over the last `days` days, in
+ * total and by product, most cancelled first, along with the notes they
+ * left, newest first.
+ */
+export async function getCancellationReport(
+  shop: string,
+  days: number,
+  now = new Date(),
+): Promise<CancellationReport> {
+  const cancellations = await db.orderCancellation.findMany({
+    where: {
+      shop,
+      createdAt: { gte: new Date(now.getTime() - days * 24 * 60 * 60 * 1000) },
+      // The order is still open when its cancellation failed
+      status: { not: "failed" },
+    },
+    include: { items: true },
+    orderBy: { createdAt: "desc" },
+  });
+
+  const reasons = emptyReasonCounts();
+  const products = new Map<string, CancellationProductReasons>();
+  const notes: CancellationReport["notes"] = [];
+
+  for (const cancellation of cancellations) {
+    if (!isCancellationReason(cancellation.reason)) {
+      continue;
+    }
+    const reason = cancellation.reason;
+    reasons[reason] += 1;
+
+    if (cancellation.note) {
+      notes.push({
+        orderId: cancellation.orderId,
+        reason,
+        note: cancellation.note,
+        createdAt: cancellation.createdAt,
+      });
+    }
+
+    // Deleted products are grouped by the line item's title instead
+    const keys = new Set<string>();
+    for (const item of cancellation.items) {
+      const key = item.productId ?? item.title;
+      if (keys.has(key)) {
+        continue;
+      }
+      keys.add(key);
+
+      const product = products.get(key) ?? {
+        productId: item.productId,
+        title: item.title,
+        cancellations: 0,
+        reasons: emptyReasonCounts(),
+      };
+      product.cancellations += 1;
+      product.reasons[reason] += 1;
+      products.set(key, product);
+    }
+  }
+
+  return {
+    reasons,
+    products: [...products.values()].sort(
+      (a, b) => b.cancellations - a.cancellations,
+    ),
+    notes,
+  };
+}
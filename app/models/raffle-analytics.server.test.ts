@@ -0,0 +1,126 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { recordRaffleRedemption } from "./raffle-analytics.server";
+import { createRaffleToken } from "./raffle-token.server";
+
+const { createRedemption, upsertSettings } = vi.hoisted(() => ({
+  createRedemption: vi.fn(),
+  upsertSettings: vi.fn(),
+}));
+
+vi.mock("../db.server", () => ({
+  default: {
+    raffleSettings: { upsert: upsertSettings },
+    raffleDraw: {
+      findUnique: vi.fn(async () => ({ id: 7 })),
+      findFirst: vi.fn(async () => null),
+    },
+    raffleRedemption: { create: createRedemption },
+  },
+}));
+
+const SHOP = "example.myshopify.com";
+const SECRET = "test-signing-secret";
+
+const token = createRaffleToken(
+  {
+    prize: { id: "percentage-7", type: "percentage", value: 7 },
+    shop: SHOP,
+    campaign: 1,
+    cart: "cart-token",
+    exp: 1900000000,
+  },
+  SECRET,
+);
+
+/**
+ * An orders/create payload, trimmed to the fields that matter, with a
+ * merchant's own discount next to the raffle one
+ */
+function orderCreated(raffleTitle: string) {
+  return {
+    admin_graphql_api_id: "gid://shopify/Order/1",
+    currency: "USD",
+    subtotal_price: "93.00",
+    note_attributes: [{ name: "raffle_discount_amount", value: token }],
+    discount_applications: [
+      {
+        target_type: "line_item",
+        type: "automatic",
+        value: "7.0",
+        value_type: "percentage",
+        allocation_method: "across",
+        target_selection: "all",
+        title: raffleTitle,
+      },
+      {
+        target_type: "line_item",
+        type: "automatic",
+        value: "5.0",
+        value_type: "fixed_amount",
+        allocation_method: "across",
+        target_selection: "all",
+        title: "Spring sale",
+      },
+    ],
+    line_items: [
+      {
+        discount_allocations: [
+          { amount: "4.20", discount_application_index: 0 },
+          { amount: "3.00", discount_application_index: 1 },
+        ],
+      },
+      {
+        discount_allocations: [
+          { amount: "2.80", discount_application_index: 0 },
+          { amount: "2.00", discount_application_index: 1 },
+        ],
+      },
+    ],
+    shipping_lines: [{ discount_allocations: [] }],
+  };
+}
+
+describe("recordRaffleRedemption", () => {
+  beforeEach(() => {
+    createRedemption.mockReset();
+    upsertSettings.mockResolvedValue({
+      shop: SHOP,
+      signingSecret: SECRET,
+      discountMessage: null,
+    });
+  });
+
+  it("records the raffle discount's share of the order", async () => {
+    expect(
+      await recordRaffleRedemption(SHOP, orderCreated("7% RAFFLE DISCOUNT")),
+    ).toBe(true);
+    expect(createRedemption).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        campaignId: 1,
+        drawId: 7,
+        prizeId: "percentage-7",
+        discountAmount: 7,
+      }),
+    });
+  });
+
+  it("finds raffle discounts shown under the shop's own message", async () => {
+    upsertSettings.mockResolvedValue({
+      shop: SHOP,
+      signingSecret: SECRET,
+      discountMessage: "SPRING PRIZE",
+    });
+
+    expect(
+      await recordRaffleRedemption(SHOP, orderCreated("7% SPRING PRIZE")),
+    ).toBe(true);
+  });
+
+  it("ignores orders where the raffle discount didn't apply", async () => {
+    const order = orderCreated("7% RAFFLE DISCOUNT");
+    order.discount_applications = order.discount_applications.slice(1);
+
+    expect(await recordRaffleRedemption(SHOP, order)).toBe(false);
+    expect(createRedemption).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,264 @@
+import { Prisma } from "@prisma/client";
+import db from "../db.server";
+import {
+  RAFFLE_CART_ATTRIBUTE,
+  getRaffleDiscountMessage,
+  getRaffleSettings,
+} from "./raffle.server";
+import { RAFFLE_CODE_PREFIX } from "./raffle-code.server";
+import { verifyRaffleToken } from "./raffle-token.server";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface DiscountAllocation {
+  amount: string;
+  discount_application_index: number;
+}
+
+/**
+ * The parts of the orders/create webhook payload a raffle redemption is
+ * read from. Amounts are in the shop's currency.
+ */
+export interface RaffleOrderPayload {
+  admin_graphql_api_id: string;
+  currency: string;
+  subtotal_price: string;
+  note_attributes?: { name: string; value: string }[];
+  discount_applications?: { type: string; title?: string; code?: string }[];
+  line_items?: { discount_allocations?: DiscountAllocation[] }[];
+  shipping_lines?: { discount_allocations?: DiscountAllocation[] }[];
+}
+
+export interface RaffleAnalyticsDay {
+  date: string;
+  plays: number;
+  wins: number;
+  redemptions: number;
+  discountAmount: number;
+}
+
+/**
+ * The raffle discount applied to an order: the indexes of its discount
+ * applications, and the draw it was won with.
+ */
+interface RaffleOrderDiscount {
+  applications: Set<number>;
+  campaignId: number | null;
+  drawId: number | null;
+  prizeId: string;
+  prizeType: string;
+}
+
+/**
+ * Finds the raffle discount applied through the signed token in the
+ * order's attributes.
+ */
+async function findTokenDiscount(
+  shop: string,
+  order: RaffleOrderPayload,
+): Promise<RaffleOrderDiscount | null> {
+  const token = order.note_attributes?.find(
+    (attribute) => attribute.name === RAFFLE_CART_ATTRIBUTE,
+  )?.value;
+  if (!token) {
+    return null;
+  }
+
+  const settings = await getRaffleSettings(shop);
+  const payload = verifyRaffleToken(token, settings.signingSecret);
+  if (!payload || payload.shop !== shop) {
+    return null;
+  }
+
+  // Orders list the discount function's message as the raffle discount's
+  // title, not the discount's own title
+  const message = getRaffleDiscountMessage(
+    payload.prize,
+    settings.discountMessage,
+  );
+  const applications = new Set(
+    (order.discount_applications || []).flatMap((application, index) =>
+      application.type === "automatic" && application.title === message
+        ? [index]
+        : [],
+    ),
+  );
+  if (applications.size === 0) {
+    return null;
+  }
+
+  const draw =
+    payload.campaign !== null
+      ? await db.raffleDraw.findUnique({
+          where: {
+            campaignId_cartToken: {
+              campaignId: payload.campaign,
+              cartToken: payload.cart,
+            },
+          },
+        })
+      : null;
+
+  return {
+    applications,
+    campaignId: payload.campaign,
+    drawId: draw?.id ?? null,
+    prizeId: payload.prize.id,
+    prizeType: payload.prize.type,
+  };
+}
+
+/**
+ * Finds the raffle discount applied through a raffle discount code, for
+ * shops in code mode.
+ */
+async function findCodeDiscount(
+  shop: string,
+  order: RaffleOrderPayload,
+): Promise<RaffleOrderDiscount | null> {
+  const application = (order.discount_applications || [])
+    .map((application, index) => ({ ...application, index }))
+    .find(
+      (application) =>
+        application.type === "discount_code" &&
+        application.code?.toUpperCase().startsWith(RAFFLE_CODE_PREFIX),
+    );
+  if (!application?.code) {
+    return null;
+  }
+
+  const draw = await db.raffleDraw.findFirst({
+    where: { shop, discountCode: application.code.toUpperCase() },
+  });
+  if (!draw) {
+    return null;
+  }
+
+  return {
+    applications: new Set([application.index]),
+    campaignId: draw.campaignId,
+    drawId: draw.id,
+    prizeId: draw.prizeId,
+    prizeType: draw.prizeType,
+  };
+}
+
+/**
+ * Records the order as a raffle redemption when a raffle discount applied
+ * to it, either through a valid raffle token or a raffle discount code.
+ * Webhooks can be delivered more than once, so an order is only ever
+ * recorded once.
+ *
+ * Returns whether a redemption was recorded.
+ */
+export async function recordRaffleRedemption(
+  shop: string,
+  order: RaffleOrderPayload,
+): Promise<boolean> {
+  const discount =
+    (await findTokenDiscount(shop, order)) ??
+    (await findCodeDiscount(shop, order));
+  if (!discount) {
+    return false;
+  }
+
+  const allocations = [
+    ...(order.line_items || []),
+    ...(order.shipping_lines || []),
+  ].flatMap((line) => line.discount_allocations || []);
+  const discountAmount = allocations
+    .filter((allocation) =>
+      discount.applications.has(allocation.discount_application_index),
+    )
+    .reduce((total, allocation) => total + Number(allocation.amount), 0);
+
+  try {
+    await db.raffleRedemption.create({
+      data: {
+        shop,
+        orderId: order.admin_graphql_api_id,
+        campaignId: discount.campaignId,
+        drawId: discount.drawId,
+        prizeId: discount.prizeId,
+        prizeType: discount.prizeType,
+        discountAmount,
+        orderSubtotal: Number(order.subtotal_price),
+        currency: order.currency,
+      },
+    });
+  } catch (error) {
+    // The order was already recorded by an earlier delivery of the webhook
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2002"
+    ) {
+      return false;
+    }
+
+    throw error;
+  }
+
+  return true;
+}
+
+/**
+ * Returns plays, wins, redemptions and the discount given per day (UTC)
+ * over the last `days` days, oldest first.
+ */
+export async function getRaffleAnalytics(
+  shop: string,
+  days: number,
+  now = new Date(),
+): Promise<RaffleAnalyticsDay[]> {
+  const today = Date.UTC(
+    now.getUTCFullYear(),
+    now.getUTCMonth(),
+    now.getUTCDate(),
+  );
+  const since = new Date(today - (days - 1) * DAY_MS);
+
+  const [draws, redemptions] = await Promise.all([
+    db.raffleDraw.findMany({
+      where: { shop, createdAt: { gte: since } },
+      select: { createdAt: true, prizeType: true },
+    }),
+    db.raffleRedemption.findMany({
+      where: { shop, createdAt: { gte: since } },
+      select: { createdAt: true, discountAmount: true },
+    }),
+  ]);
+
+  const analytics = new Map<string, RaffleAnalyticsDay>();
+  for (let i = 0; i < days; i++) {
+    const date = new Date(since.getTime() + i * DAY_MS)
+      .toISOString()
+      .split("T")[0];
+    analytics.set(date, {
+      date,
+      plays: 0,
+      wins: 0,
+      redemptions: 0,
+      discountAmount: 0,
+    });
+  }
+
+  const dayOf = (date: Date) => analytics.get(date.toISOString().split("T")[0]);
+
+  for (const draw of draws) {
+    const day = dayOf(draw.createdAt);
+    if (day) {
+      day.plays += 1;
+      day.wins += draw.prizeType === "none" ? 0 : 1;
+    }
+  }
+
+  for (const redemption of redemptions) {
+    const day = dayOf(redemption.createdAt);
+    if (day) {
+      day.redemptions += 1;
+      day.discountAmount += redemption.discountAmount;
+    }
+  }
+
+  return [...analytics.values()];
+}
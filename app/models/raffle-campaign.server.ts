@@ -0,0 +1,312 @@
+import type { AdminApiContext } from "@shopify/shopify-app-react-router/server";
+import type { RaffleCampaign } from "@prisma/client";
+import db from "../db.server";
+import {
+  buildRaffleDiscountConfiguration,
+  getRaffleDiscountClasses,
+  getRaffleSettings,
+  parsePrizeTable,
+} from "./raffle.server";
+import {
+  RAFFLE_DISCOUNT_TITLE,
+  createRaffleDiscount,
+  deactivateRaffleDiscount,
+  findRaffleFunction,
+  getShopTimezoneOffset,
+  setRaffleDiscountConfiguration,
+  updateRaffleDiscountClasses,
+  updateRaffleDiscountSchedule,
+} from "./raffle-discount.server";
+
+/**
+ * What the merchant last did with the campaign. Whether an "active"
+ * campaign is actually running also depends on its dates, see
+ * getCampaignState.
+ */
+export type RaffleCampaignStatus = "active" | "paused" | "ended";
+
+export type RaffleCampaignState = "scheduled" | "active" | "paused" | "ended";
+
+export interface RaffleCampaignInput {
+  name: string;
+  startsAt: Date;
+  endsAt: Date | null;
+}
+
+export function getCampaignState(
+  campaign: Pick<RaffleCampaign, "status" | "startsAt" | "endsAt">,
+  now = new Date(),
+): RaffleCampaignState {
+  if (campaign.status === "ended" || (campaign.endsAt && campaign.endsAt <= now)) {
+    return "ended";
+  }
+  if (campaign.status === "paused") {
+    return "paused";
+  }
+  if (campaign.startsAt > now) {
+    return "scheduled";
+  }
+  return "active";
+}
+
+export async function getRaffleCampaigns(shop: string) {
+  return db.raffleCampaign.findMany({
+    where: { shop },
+    orderBy: { createdAt: "desc" },
+  });
+}
+
+export async function getRaffleCampaign(shop: string, id: number) {
+  return db.raffleCampaign.findFirst({ where: { shop, id } });
+}
+
+/**
+ * Returns the campaign the storefront can currently play, if any.
+ */
+export async function getActiveRaffleCampaign(shop: string, now = new Date()) {
+  return db.raffleCampaign.findFirst({
+    where: {
+      shop,
+      status: "active",
+      startsAt: { lte: now },
+      OR: [{ endsAt: null }, { endsAt: { gt: now } }],
+    },
+    orderBy: { startsAt: "desc" },
+  });
+}
+
+/**
+ * Returns the campaigns that haven't ended yet, including paused and
+ * scheduled ones.
+ */
+export async function getOpenRaffleCampaigns(shop: string, now = new Date()) {
+  return db.raffleCampaign.findMany({
+    where: {
+      shop,
+      status: { not: "ended" },
+      OR: [{ endsAt: null }, { endsAt: { gt: now } }],
+    },
+  });
+}
+
+/**
+ * Creates the automatic discount for a campaign, scheduled for its dates,
+ * and records it on the campaign.
+ *
+ * Returns an error message, or null on success.
+ */
+export async function createRaffleCampaignDiscount(
+  admin: AdminApiContext,
+  campaign: RaffleCampaign,
+): Promise<string | null> {
+  const raffleFunction = await findRaffleFunction(admin);
+  if (!raffleFunction) {
+    return "Raffle discount function not found. Make sure the function is deployed.";
+  }
+
+  const settings = await getRaffleSettings(campaign.shop);
+  const timezoneOffsetMinutes = await getShopTimezoneOffset(admin);
+
+  const { discountId, error } = await createRaffleDiscount(admin, {
+    functionId: raffleFunction.id,
+    title: `${RAFFLE_DISCOUNT_TITLE}: ${campaign.name}`,
+    startsAt: campaign.startsAt,
+    endsAt: campaign.endsAt,
+    discountClasses: getRaffleDiscountClasses(
+      parsePrizeTable(settings.prizeTable),
+    ),
+    configuration: JSON.stringify(
+      buildRaffleDiscountConfiguration(
+        settings,
+        campaign.id,
+        timezoneOffsetMinutes,
+      ),
+    ),
+  });
+
+  if (error || !discountId) {
+    return error ?? "Failed to create the raffle discount";
+  }
+
+  await db.raffleCampaign.update({
+    where: { id: campaign.id },
+    data: { discountId, timezoneOffsetMinutes },
+  });
+
+  return null;
+}
+
+/**
+ * Creates a campaign along with the automatic discount that applies its
+ * prizes between the campaign's dates. Only one campaign can be open at a
+ * time, so raffle discounts never stack.
+ *
+ * Returns an error message, or null on success.
+ */
+export async function createRaffleCampaign(
+  admin: AdminApiContext,
+  shop: string,
+  { name, startsAt, endsAt }: RaffleCampaignInput,
+): Promise<string | null> {
+  const openCampaigns = await getOpenRaffleCampaigns(shop);
+  if (openCampaigns.length > 0) {
+    return "End the current campaign before creating a new one";
+  }
+
+  const campaign = await db.raffleCampaign.create({
+    data: { shop, name, startsAt, endsAt },
+  });
+
+  const error = await createRaffleCampaignDiscount(admin, campaign);
+  if (error) {
+    await db.raffleCampaign.delete({ where: { id: campaign.id } });
+    return error;
+  }
+
+  return null;
+}
+
+/**
+ * Stops draws and the discount until the campaign is resumed.
+ */
+export async function pauseRaffleCampaign(
+  admin: AdminApiContext,
+  campaign: RaffleCampaign,
+): Promise<string | null> {
+  const state = getCampaignState(campaign);
+  if (state !== "active" && state !== "scheduled") {
+    return "Only active or scheduled campaigns can be paused";
+  }
+
+  if (campaign.discountId) {
+    const error = await deactivateRaffleDiscount(admin, campaign.discountId);
+    if (error) {
+      return error;
+    }
+  }
+
+  await db.raffleCampaign.update({
+    where: { id: campaign.id },
+    data: { status: "paused" },
+  });
+
+  return null;
+}
+
+/**
+ * Puts the discount back on the campaign's original schedule.
+ */
+export async function resumeRaffleCampaign(
+  admin: AdminApiContext,
+  campaign: RaffleCampaign,
+): Promise<string | null> {
+  if (getCampaignState(campaign) !== "paused") {
+    return "Only paused campaigns can be resumed";
+  }
+
+  if (campaign.discountId) {
+    const error = await updateRaffleDiscountSchedule(admin, campaign.discountId, {
+      startsAt: campaign.startsAt,
+      endsAt: campaign.endsAt,
+    });
+    if (error) {
+      return error;
+    }
+  }
+
+  await db.raffleCampaign.update({
+    where: { id: campaign.id },
+    data: { status: "active" },
+  });
+
+  return null;
+}
+
+/**
+ * Ends the campaign and its discount for good.
+ */
+export async function endRaffleCampaign(
+  admin: AdminApiContext,
+  campaign: RaffleCampaign,
+): Promise<string | null> {
+  if (getCampaignState(campaign) === "ended") {
+    return "This campaign has already ended";
+  }
+
+  if (campaign.discountId) {
+    const error = await deactivateRaffleDiscount(admin, campaign.discountId);
+    if (error) {
+      return error;
+    }
+  }
+
+  const now = new Date();
+  await db.raffleCampaign.update({
+    where: { id: campaign.id },
+    data: {
+      status: "ended",
+      endsAt: campaign.endsAt && campaign.endsAt < now ? campaign.endsAt : now,
+    },
+  });
+
+  return null;
+}
+
+/**
+ * Writes the current signing secret and prize table to the discounts of
+ * every campaign that hasn't ended, so the function validates against the
+ * same table the app proxy draws from. The discount classes follow the
+ * table too, so new prize types can be applied. The shop's timezone is
+ * refreshed as well, in case it changed or moved to daylight saving time.
+ *
+ * Returns an error message, or null on success.
+ */
+export async function syncRaffleDiscountConfigurations(
+  admin: AdminApiContext,
+  shop: string,
+): Promise<string | null> {
+  const settings = await getRaffleSettings(shop);
+  const discountClasses = getRaffleDiscountClasses(
+    parsePrizeTable(settings.prizeTable),
+  );
+  const campaigns = await getOpenRaffleCampaigns(shop);
+  const timezoneOffsetMinutes = await getShopTimezoneOffset(admin);
+
+  for (const campaign of campaigns) {
+    if (!campaign.discountId) {
+      continue;
+    }
+
+    const classesError = await updateRaffleDiscountClasses(
+      admin,
+      campaign.discountId,
+      discountClasses,
+    );
+    if (classesError) {
+      return classesError;
+    }
+
+    const error = await setRaffleDiscountConfiguration(
+      admin,
+      campaign.discountId,
+      JSON.stringify(
+        buildRaffleDiscountConfiguration(
+          settings,
+          campaign.id,
+          timezoneOffsetMinutes,
+        ),
+      ),
+    );
+    if (error) {
+      return error;
+    }
+
+    // Prizes drawn from now on expire by the same offset
+    await db.raffleCampaign.update({
+      where: { id: campaign.id },
+      data: { timezoneOffsetMinutes },
+    });
+  }
+
+  return null;
+}
@@ -0,0 +1,345 @@
+import { randomBytes } from "node:crypto";
+import type { AdminApiContext } from "@shopify/shopify-app-react-router/server";
+import type { RaffleDraw } from "@prisma/client";
+import db from "../db.server";
+import {
+  getRaffleDrawExpiry,
+  parseEligibilityRules,
+  parsePrizeTable,
+} from "./raffle.server";
+import { RAFFLE_DISCOUNT_COMBINES_WITH } from "./raffle-discount.server";
+
+export const RAFFLE_CODE_PREFIX = "RAFFLE-";
+
+// Codes without ambiguous characters, so they're easy to type at checkout
+const RAFFLE_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const RAFFLE_CODE_LENGTH = 10;
+
+// How often a shop's expired codes are cleaned up, and how many at a time
+const RAFFLE_CODE_CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+const RAFFLE_CODE_CLEANUP_BATCH_SIZE = 50;
+
+interface UserError {
+  field?: string[];
+  message: string;
+}
+
+function formatUserErrors(userErrors: UserError[]) {
+  return userErrors.map((e) => e.message).join(", ");
+}
+
+function generateRaffleCode() {
+  const bytes = randomBytes(RAFFLE_CODE_LENGTH);
+  const characters = [...bytes].map(
+    (byte) => RAFFLE_CODE_ALPHABET[byte % RAFFLE_CODE_ALPHABET.length],
+  );
+  return `${RAFFLE_CODE_PREFIX}${characters.join("")}`;
+}
+
+/**
+ * What a basic code discount gives for a won prize, or null for prizes
+ * that aren't basic discounts.
+ */
+function getCustomerGets(
+  draw: RaffleDraw,
+  prizeTargets: { productIds?: string[]; collectionIds?: string[] },
+) {
+  switch (draw.prizeType) {
+    case "percentage":
+      return {
+        value: { percentage: draw.prizeValue / 100 },
+        items: { all: true },
+      };
+    case "fixed_amount":
+      return {
+        value: {
+          discountAmount: { amount: draw.prizeValue, appliesOnEachItem: false },
+        },
+        items: { all: true },
+      };
+    case "product_percentage":
+      return {
+        value: { percentage: draw.prizeValue / 100 },
+        // Codes take either products or collections, and prize tables
+        // saved before both were rejected keep their products
+        items: prizeTargets.productIds?.length
+          ? { products: { productsToAdd: prizeTargets.productIds } }
+          : { collections: { add: prizeTargets.collectionIds ?? [] } },
+      };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Creates a single-use discount code for a winning draw, expiring with the
+ * draw by its campaign's timezone offset. The code carries the shop's minimum subtotal, but unlike the
+ * raffle discount it can't check customer tags or excluded collections.
+ */
+async function createRaffleDiscountCode(
+  admin: AdminApiContext,
+  draw: RaffleDraw,
+  settings: { prizeTable: string | null; eligibilityRules: string | null },
+  timezoneOffsetMinutes: number,
+): Promise<{ code: string | null; discountId: string | null; error: string | null }> {
+  const code = generateRaffleCode();
+  const prizeTargets =
+    parsePrizeTable(settings.prizeTable).find(
+      (prize) => prize.id === draw.prizeId,
+    ) ?? {};
+  const { minimumSubtotal } = parseEligibilityRules(settings.eligibilityRules);
+
+  const discount = {
+    title: `Raffle code ${code}`,
+    code,
+    startsAt: draw.createdAt.toISOString(),
+    endsAt: getRaffleDrawExpiry(draw, timezoneOffsetMinutes).toISOString(),
+    usageLimit: 1,
+    appliesOncePerCustomer: true,
+    customerSelection: { all: true },
+    combinesWith: RAFFLE_DISCOUNT_COMBINES_WITH,
+    ...(minimumSubtotal !== null
+      ? {
+          minimumRequirement: {
+            subtotal: { greaterThanOrEqualToSubtotal: minimumSubtotal },
+          },
+        }
+      : {}),
+  };
+
+  let response;
+  let mutation: string;
+
+  if (draw.prizeType === "free_shipping") {
+    mutation = "discountCodeFreeShippingCreate";
+    response = await admin.graphql(
+      `#graphql
+      mutation CreateRaffleFreeShippingCode($freeShippingCodeDiscount: DiscountCodeFreeShippingInput!) {
+        discountCodeFreeShippingCreate(freeShippingCodeDiscount: $freeShippingCodeDiscount) {
+          codeDiscountNode {
+            id
+          }
+          userErrors {
+            field
+            message
+          }
+        }
+      }`,
+      {
+        variables: {
+          freeShippingCodeDiscount: { ...discount, destination: { all: true } },
+        },
+      }
+    );
+  } else {
+    const customerGets = getCustomerGets(draw, prizeTargets);
+    if (!customerGets) {
+      return { code: null, discountId: null, error: "Prize has no discount" };
+    }
+
+    mutation = "discountCodeBasicCreate";
+    response = await admin.graphql(
+      `#graphql
+      mutation CreateRaffleBasicCode($basicCodeDiscount: DiscountCodeBasicInput!) {
+        discountCodeBasicCreate(basicCodeDiscount: $basicCodeDiscount) {
+          codeDiscountNode {
+            id
+          }
+          userErrors {
+            field
+            message
+          }
+        }
+      }`,
+      {
+        variables: { basicCodeDiscount: { ...discount, customerGets } },
+      }
+    );
+  }
+
+  const responseJson = await response.json();
+  const result = responseJson.data?.[mutation];
+  const userErrors: UserError[] = result?.userErrors || [];
+
+  if (userErrors.length > 0) {
+    console.error("Failed to create raffle discount code:", userErrors);
+    return { code: null, discountId: null, error: formatUserErrors(userErrors) };
+  }
+
+  return {
+    code,
+    discountId: result?.codeDiscountNode?.id ?? null,
+    error: null,
+  };
+}
+
+/**
+ * Returns the discount code of a winning draw, creating it on the draw's
+ * first request so re-fetching hands back the same code.
+ */
+export async function getOrCreateRaffleDrawCode(
+  admin: AdminApiContext,
+  draw: RaffleDraw,
+  settings: { prizeTable: string | null; eligibilityRules: string | null },
+  timezoneOffsetMinutes: number,
+): Promise<{ code: string | null; error: string | null }> {
+  if (draw.discountCode) {
+    return { code: draw.discountCode, error: null };
+  }
+
+  const { code, discountId, error } = await createRaffleDiscountCode(
+    admin,
+    draw,
+    settings,
+    timezoneOffsetMinutes,
+  );
+  if (error || !code) {
+    return { code: null, error: error ?? "No discount code was created" };
+  }
+
+  await db.raffleDraw.update({
+    where: { id: draw.id },
+    data: { discountCode: code, discountCodeId: discountId },
+  });
+
+  return { code, error: null };
+}
+
+/**
+ * Deletes the shop's expired raffle codes that were never used, oldest
+ * first. Used codes are kept, so their orders still show the discount.
+ *
+ * Returns how many codes were deleted.
+ */
+export async function deleteExpiredRaffleCodes(
+  admin: AdminApiContext,
+  shop: string,
+  now = new Date(),
+): Promise<number> {
+  // Draws expire by their campaign's timezone offset
+  const campaigns = await db.raffleCampaign.findMany({
+    where: { shop },
+    select: { id: true, timezoneOffsetMinutes: true },
+  });
+  const timezoneOffsets = new Map<number | null, number>(
+    campaigns.map((campaign) => [campaign.id, campaign.timezoneOffsetMinutes]),
+  );
+
+  const draws = (
+    await db.raffleDraw.findMany({
+      where: { shop, discountCodeId: { not: null } },
+      orderBy: { createdAt: "asc" },
+      take: RAFFLE_CODE_CLEANUP_BATCH_SIZE,
+    })
+  ).filter(
+    (draw) =>
+      getRaffleDrawExpiry(draw, timezoneOffsets.get(draw.campaignId) ?? 0) <=
+      now,
+  );
+
+  if (draws.length === 0) {
+    return 0;
+  }
+
+  const usageResponse = await admin.graphql(
+    `#graphql
+    query GetRaffleCodeUsage($ids: [ID!]!) {
+      nodes(ids: $ids) {
+        ... on DiscountCodeNode {
+          id
+          codeDiscount {
+            ... on DiscountCodeBasic {
+              asyncUsageCount
+            }
+            ... on DiscountCodeFreeShipping {
+              asyncUsageCount
+            }
+          }
+        }
+      }
+    }`,
+    {
+      variables: { ids: draws.map((draw) => draw.discountCodeId) },
+    }
+  );
+  const usageJson = await usageResponse.json();
+  const nodes: ({
+    id: string;
+    codeDiscount?: { asyncUsageCount?: number };
+  } | null)[] = usageJson.data?.nodes || [];
+
+  // Codes that were already deleted in the admin come back as null
+  const unusedIds = nodes.flatMap((node) =>
+    node && !node.codeDiscount?.asyncUsageCount ? [node.id] : [],
+  );
+
+  if (unusedIds.length > 0) {
+    const deleteResponse = await admin.graphql(
+      `#graphql
+      mutation DeleteRaffleCodes($ids: [ID!]!) {
+        discountCodeBulkDelete(ids: $ids) {
+          job {
+            id
+          }
+          userErrors {
+            field
+            message
+          }
+        }
+      }`,
+      {
+        variables: { ids: unusedIds },
+      }
+    );
+    const deleteJson = await deleteResponse.json();
+    const userErrors: UserError[] =
+      deleteJson.data?.discountCodeBulkDelete?.userErrors || [];
+
+    if (userErrors.length > 0) {
+      console.error("Failed to delete expired raffle codes:", userErrors);
+      return 0;
+    }
+  }
+
+  // The code is kept on the draw so redemptions can still be matched
+  await db.raffleDraw.updateMany({
+    where: { id: { in: draws.map((draw) => draw.id) } },
+    data: { discountCodeId: null },
+  });
+
+  return unusedIds.length;
+}
+
+/**
+ * Cleans up the shop's expired raffle codes in the background, at most
+ * once per interval across all app instances. Doesn't wait for the
+ * cleanup, so it can be called while handling a storefront request.
+ */
+export async function scheduleRaffleCodeCleanup(
+  admin: AdminApiContext,
+  shop: string,
+  now = new Date(),
+) {
+  const { count } = await db.raffleSettings.updateMany({
+    where: {
+      shop,
+      OR: [
+        { codesCleanedAt: null },
+        {
+          codesCleanedAt: {
+            lte: new Date(now.getTime() - RAFFLE_CODE_CLEANUP_INTERVAL_MS),
+          },
+        },
+      ],
+    },
+    data: { codesCleanedAt: now },
+  });
+
+  if (count === 0) {
+    return;
+  }
+
+  deleteExpiredRaffleCodes(admin, shop, now).catch((error) => {
+    console.error(`Couldn't clean up the raffle codes of ${shop}:`, error);
+  });
+}
@@ -0,0 +1,68 @@
+import type { AdminApiContext } from "@shopify/shopify-app-react-router/server";
+import { RAFFLE_CONFIG_NAMESPACE } from "./raffle.server";
+
+// The customer metafield a logged-in customer's won prize is kept in, see
+// shopify.app.toml
+const RAFFLE_PRIZE_KEY = "raffle_prize";
+
+interface UserError {
+  field?: string[];
+  message: string;
+}
+
+export interface CustomerRafflePrize {
+  campaignId: number | null;
+  prize: { id: string; type: string; value: number };
+  // The signed cart attribute token, or the discount code in code mode
+  token: string | null;
+  code: string | null;
+  expiresAt: string;
+}
+
+/**
+ * Writes the prize a logged-in customer won to their customer metafield,
+ * so it isn't lost with an abandoned cart and can be redeemed on a later
+ * visit. `customerId` is the numeric id the app proxy passes along.
+ *
+ * Returns an error message, or null on success.
+ */
+export async function setCustomerRafflePrize(
+  admin: AdminApiContext,
+  customerId: string,
+  value: CustomerRafflePrize,
+): Promise<string | null> {
+  const response = await admin.graphql(
+    `#graphql
+    mutation SetCustomerRafflePrize($metafields: [MetafieldsSetInput!]!) {
+      metafieldsSet(metafields: $metafields) {
+        userErrors {
+          field
+          message
+        }
+      }
+    }`,
+    {
+      variables: {
+        metafields: [
+          {
+            ownerId: `gid://shopify/Customer/${customerId}`,
+            namespace: RAFFLE_CONFIG_NAMESPACE,
+            key: RAFFLE_PRIZE_KEY,
+            type: "json",
+            value: JSON.stringify(value),
+          },
+        ],
+      },
+    }
+  );
+
+  const json = await response.json();
+  const userErrors: UserError[] = json.data?.metafieldsSet?.userErrors || [];
+
+  if (userErrors.length > 0) {
+    console.error("Failed to save the customer's raffle prize:", userErrors);
+    return userErrors.map((e) => e.message).join(", ");
+  }
+
+  return null;
+}
@@ -0,0 +1,364 @@
+import type { AdminApiContext } from "@shopify/shopify-app-react-router/server";
+import { RAFFLE_CONFIG_KEY, RAFFLE_CONFIG_NAMESPACE } from "./raffle.server";
+import type { RaffleDiscountClass } from "./raffle.server";
+
+export const RAFFLE_DISCOUNT_TITLE = "Raffle Discount";
+
+// The handle in extensions/raffle-discount-function/shopify.extension.toml
+export const RAFFLE_FUNCTION_HANDLE = "raffle-discount-function";
+
+// A won free shipping prize already covers the whole delivery, so it
+// shouldn't stack with other shipping discounts
+export const RAFFLE_DISCOUNT_COMBINES_WITH = {
+  orderDiscounts: true,
+  productDiscounts: true,
+  shippingDiscounts: false,
+};
+
+interface ShopifyFunction {
+  id: string;
+  handle: string;
+  title: string;
+  apiType: string;
+}
+
+export type RaffleDiscountStatus = "ACTIVE" | "SCHEDULED" | "EXPIRED";
+
+interface UserError {
+  field?: string[];
+  message: string;
+}
+
+export interface RaffleDiscountSchedule {
+  startsAt: Date;
+  endsAt: Date | null;
+}
+
+function formatUserErrors(userErrors: UserError[]) {
+  return userErrors.map((e) => e.message).join(", ");
+}
+
+/**
+ * Finds the deployed raffle discount function by its extension handle, which
+ * unlike the title doesn't change with the merchant's language.
+ */
+export async function findRaffleFunction(admin: AdminApiContext) {
+  const functionsResponse = await admin.graphql(
+    `#graphql
+    query GetShopifyFunctions {
+      shopifyFunctions(first: 25) {
+        nodes {
+          id
+          handle
+          title
+          apiType
+        }
+      }
+    }`
+  );
+
+  const functionsJson = await functionsResponse.json();
+  const functions: ShopifyFunction[] =
+    functionsJson.data?.shopifyFunctions?.nodes || [];
+
+  const raffleFunction = functions.find(
+    (fn) => fn.handle === RAFFLE_FUNCTION_HANDLE
+  );
+
+  if (!raffleFunction) {
+    console.log(
+      "Raffle discount function not found. Make sure the function is deployed. Available functions:",
+      functions.map((f) => ({
+        handle: f.handle,
+        title: f.title,
+        apiType: f.apiType,
+      }))
+    );
+  }
+
+  return raffleFunction ?? null;
+}
+
+/**
+ * Looks up the status of raffle discounts by id. Discounts the merchant
+ * deleted are missing from the result.
+ */
+export async function getRaffleDiscountStatuses(
+  admin: AdminApiContext,
+  discountIds: string[],
+): Promise<Map<string, RaffleDiscountStatus>> {
+  const statuses = new Map<string, RaffleDiscountStatus>();
+  if (discountIds.length === 0) {
+    return statuses;
+  }
+
+  const statusResponse = await admin.graphql(
+    `#graphql
+    query GetRaffleDiscountStatuses($ids: [ID!]!) {
+      nodes(ids: $ids) {
+        ... on DiscountAutomaticNode {
+          id
+          automaticDiscount {
+            ... on DiscountAutomaticApp {
+              status
+            }
+          }
+        }
+      }
+    }`,
+    {
+      variables: { ids: discountIds },
+    }
+  );
+
+  const statusJson = await statusResponse.json();
+  const nodes: ({
+    id: string;
+    automaticDiscount?: { status?: RaffleDiscountStatus };
+  } | null)[] = statusJson.data?.nodes || [];
+
+  for (const node of nodes) {
+    if (node?.automaticDiscount?.status) {
+      statuses.set(node.id, node.automaticDiscount.status);
+    }
+  }
+
+  return statuses;
+}
+
+/**
+ * The shop's current offset from UTC in minutes, which the discount
+ * function needs to tell on which of the shop's days a prize expires.
+ */
+export async function getShopTimezoneOffset(
+  admin: AdminApiContext,
+): Promise<number> {
+  const shopResponse = await admin.graphql(
+    `#graphql
+    query GetShopTimezoneOffset {
+      shop {
+        timezoneOffsetMinutes
+      }
+    }`
+  );
+
+  const shopJson = await shopResponse.json();
+  return shopJson.data?.shop?.timezoneOffsetMinutes ?? 0;
+}
+
+/**
+ * Creates the automatic discount for a raffle campaign, scheduled for the
+ * campaign's dates and carrying its function configuration.
+ */
+export async function createRaffleDiscount(
+  admin: AdminApiContext,
+  {
+    functionId,
+    title,
+    startsAt,
+    endsAt,
+    discountClasses,
+    configuration,
+  }: RaffleDiscountSchedule & {
+    functionId: string;
+    title: string;
+    discountClasses: RaffleDiscountClass[];
+    configuration: string;
+  },
+): Promise<{ discountId: string | null; error: string | null }> {
+  const createDiscountResponse = await admin.graphql(
+    `#graphql
+    mutation CreateRaffleDiscount($automaticAppDiscount: DiscountAutomaticAppInput!) {
+      discountAutomaticAppCreate(automaticAppDiscount: $automaticAppDiscount) {
+        automaticAppDiscount {
+          discountId
+          title
+        }
+        userErrors {
+          field
+          message
+        }
+      }
+    }`,
+    {
+      variables: {
+        automaticAppDiscount: {
+          title,
+          functionId,
+          discountClasses,
+          startsAt: startsAt.toISOString(),
+          endsAt: endsAt?.toISOString() ?? null,
+          combinesWith: RAFFLE_DISCOUNT_COMBINES_WITH,
+          metafields: [
+            {
+              namespace: RAFFLE_CONFIG_NAMESPACE,
+              key: RAFFLE_CONFIG_KEY,
+              type: "json",
+              value: configuration,
+            },
+          ],
+        },
+      },
+    }
+  );
+
+  const createDiscountJson = await createDiscountResponse.json();
+  const result = createDiscountJson.data?.discountAutomaticAppCreate;
+  const userErrors: UserError[] = result?.userErrors || [];
+
+  if (userErrors.length > 0) {
+    console.error("Failed to register raffle discount:", userErrors);
+    return { discountId: null, error: formatUserErrors(userErrors) };
+  }
+
+  return {
+    discountId: result?.automaticAppDiscount?.discountId ?? null,
+    error: null,
+  };
+}
+
+async function updateRaffleDiscount(
+  admin: AdminApiContext,
+  discountId: string,
+  automaticAppDiscount: Record<string, unknown>,
+): Promise<string | null> {
+  const updateDiscountResponse = await admin.graphql(
+    `#graphql
+    mutation UpdateRaffleDiscount($id: ID!, $automaticAppDiscount: DiscountAutomaticAppInput!) {
+      discountAutomaticAppUpdate(id: $id, automaticAppDiscount: $automaticAppDiscount) {
+        automaticAppDiscount {
+          discountId
+        }
+        userErrors {
+          field
+          message
+        }
+      }
+    }`,
+    {
+      variables: { id: discountId, automaticAppDiscount },
+    }
+  );
+
+  const updateDiscountJson = await updateDiscountResponse.json();
+  const userErrors: UserError[] =
+    updateDiscountJson.data?.discountAutomaticAppUpdate?.userErrors || [];
+
+  if (userErrors.length > 0) {
+    console.error("Failed to update raffle discount:", userErrors);
+    return formatUserErrors(userErrors);
+  }
+
+  return null;
+}
+
+/**
+ * Moves a raffle discount's start and end dates.
+ */
+export async function updateRaffleDiscountSchedule(
+  admin: AdminApiContext,
+  discountId: string,
+  { startsAt, endsAt }: RaffleDiscountSchedule,
+): Promise<string | null> {
+  return updateRaffleDiscount(admin, discountId, {
+    startsAt: startsAt.toISOString(),
+    endsAt: endsAt?.toISOString() ?? null,
+  });
+}
+
+/**
+ * Sets which function targets run for a raffle discount, along with the
+ * discounts it combines with.
+ */
+export async function updateRaffleDiscountClasses(
+  admin: AdminApiContext,
+  discountId: string,
+  discountClasses: RaffleDiscountClass[],
+): Promise<string | null> {
+  return updateRaffleDiscount(admin, discountId, {
+    discountClasses,
+    combinesWith: RAFFLE_DISCOUNT_COMBINES_WITH,
+  });
+}
+
+/**
+ * Stops a raffle discount from applying, ending it now.
+ */
+export async function deactivateRaffleDiscount(
+  admin: AdminApiContext,
+  discountId: string,
+): Promise<string | null> {
+  const deactivateResponse = await admin.graphql(
+    `#graphql
+    mutation DeactivateRaffleDiscount($id: ID!) {
+      discountAutomaticDeactivate(id: $id) {
+        automaticDiscountNode {
+          id
+        }
+        userErrors {
+          field
+          message
+        }
+      }
+    }`,
+    {
+      variables: { id: discountId },
+    }
+  );
+
+  const deactivateJson = await deactivateResponse.json();
+  const userErrors: UserError[] =
+    deactivateJson.data?.discountAutomaticDeactivate?.userErrors || [];
+
+  if (userErrors.length > 0) {
+    console.error("Failed to deactivate raffle discount:", userErrors);
+    return formatUserErrors(userErrors);
+  }
+
+  return null;
+}
+
+/**
+ * Writes the function configuration to a raffle discount's metafield.
+ */
+export async function setRaffleDiscountConfiguration(
+  admin: AdminApiContext,
+  discountId: string,
+  configuration: string,
+): Promise<string | null> {
+  const setConfigurationResponse = await admin.graphql(
+    `#graphql
+    mutation SetRaffleDiscountConfiguration($metafields: [MetafieldsSetInput!]!) {
+      metafieldsSet(metafields: $metafields) {
+        userErrors {
+          field
+          message
+        }
+      }
+    }`,
+    {
+      variables: {
+        metafields: [
+          {
+            ownerId: discountId,
+            namespace: RAFFLE_CONFIG_NAMESPACE,
+            key: RAFFLE_CONFIG_KEY,
+            type: "json",
+            value: configuration,
+          },
+        ],
+      },
+    }
+  );
+
+  const setConfigurationJson = await setConfigurationResponse.json();
+  const userErrors: UserError[] =
+    setConfigurationJson.data?.metafieldsSet?.userErrors || [];
+
+  if (userErrors.length > 0) {
+    console.error("Failed to update raffle discount configuration:", userErrors);
+    return formatUserErrors(userErrors);
+  }
+
+  return null;
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it, vi } from "vitest";
+import { raffleLeadsToCsv } from "./raffle-lead.server";
+
+vi.mock("../db.server", () => ({ default: {} }));
+
+function lead(email: string) {
+  return {
+    id: 1,
+    shop: "example.myshopify.com",
+    email,
+    customerId: "1",
+    campaignId: 2,
+    marketingConsent: true,
+    createdAt: new Date("2030-03-17T12:00:00Z"),
+    updatedAt: new Date("2030-03-17T12:00:00Z"),
+  };
+}
+
+describe("raffleLeadsToCsv", () => {
+  it("has a header and one row per lead", () => {
+    expect(raffleLeadsToCsv([lead("jane@example.com")]).split("\n")).toEqual([
+      "Email,Marketing consent,Customer ID,Campaign ID,Entered at",
+      "jane@example.com,yes,1,2,2030-03-17T12:00:00.000Z",
+    ]);
+  });
+
+  it("quotes values with commas and quotes", () => {
+    const row = raffleLeadsToCsv([lead('"jane",doe@example.com')]).split(
+      "\n",
+    )[1];
+    expect(row.startsWith('"""jane"",doe@example.com",')).toBe(true);
+  });
+
+  it("keeps spreadsheets from running values as formulas", () => {
+    for (const email of [
+      '=HYPERLINK("http://example.com")@example.com',
+      "+1@example.com",
+      "-1@example.com",
+      "@jane@example.com",
+      "\tjane@example.com",
+      "\rjane@example.com",
+    ]) {
+      const row = raffleLeadsToCsv([lead(email)]).split("\n")[1];
+      expect(row.startsWith(`"'${email.replace(/"/g, '""')}",`)).toBe(true);
+    }
+  });
+});
@@ -0,0 +1,204 @@
+import type { AdminApiContext } from "@shopify/shopify-app-react-router/server";
+import db from "../db.server";
+
+interface UserError {
+  field?: string[];
+  message: string;
+}
+
+export interface RaffleLeadInput {
+  shop: string;
+  email: string;
+  customerId: string | null;
+  campaignId: number | null;
+  marketingConsent: boolean;
+}
+
+const EMAIL_PATTERN = /^[^\s@"]+@[^\s@"]+\.[^\s@"]+$/;
+
+export function isValidEmail(email: string) {
+  return EMAIL_PATTERN.test(email);
+}
+
+function formatUserErrors(userErrors: UserError[]) {
+  return userErrors.map((e) => e.message).join(", ");
+}
+
+/**
+ * Finds the shop's customer with this email, creating them when there's
+ * none. Anyone can type an address, so only the logged-in customer's own
+ * email is subscribed outright. Other customers who opt in are created
+ * pending confirmation, and existing customers' consent is left as it is.
+ * An unticked box never unsubscribes anyone.
+ *
+ * Returns the customer's numeric id, the same form the app proxy passes
+ * as `logged_in_customer_id`.
+ */
+export async function upsertRaffleCustomer(
+  admin: AdminApiContext,
+  email: string,
+  marketingConsent: boolean,
+  loggedInCustomerId: string | null,
+): Promise<{ customerId: string | null; error: string | null }> {
+  const consentUpdatedAt = new Date().toISOString();
+
+  const findResponse = await admin.graphql(
+    `#graphql
+    query FindRaffleCustomer($query: String!) {
+      customers(first: 1, query: $query) {
+        nodes {
+          id
+        }
+      }
+    }`,
+    {
+      variables: { query: `email:"${email}"` },
+    }
+  );
+  const findJson = await findResponse.json();
+  const existingId: string | undefined =
+    findJson.data?.customers?.nodes?.[0]?.id;
+
+  if (existingId) {
+    const customerId = existingId.split("/").pop() ?? null;
+
+    if (marketingConsent && customerId === loggedInCustomerId) {
+      const consentResponse = await admin.graphql(
+        `#graphql
+        mutation SubscribeRaffleCustomer($input: CustomerEmailMarketingConsentUpdateInput!) {
+          customerEmailMarketingConsentUpdate(input: $input) {
+            userErrors {
+              field
+              message
+            }
+          }
+        }`,
+        {
+          variables: {
+            input: {
+              customerId: existingId,
+              emailMarketingConsent: {
+                marketingState: "SUBSCRIBED",
+                marketingOptInLevel: "SINGLE_OPT_IN",
+                consentUpdatedAt,
+              },
+            },
+          },
+        }
+      );
+      const consentJson = await consentResponse.json();
+      const userErrors: UserError[] =
+        consentJson.data?.customerEmailMarketingConsentUpdate?.userErrors || [];
+
+      if (userErrors.length > 0) {
+        console.error("Failed to update marketing consent:", userErrors);
+        return { customerId: null, error: formatUserErrors(userErrors) };
+      }
+    }
+
+    return { customerId, error: null };
+  }
+
+  const createResponse = await admin.graphql(
+    `#graphql
+    mutation CreateRaffleCustomer($input: CustomerInput!) {
+      customerCreate(input: $input) {
+        customer {
+          id
+        }
+        userErrors {
+          field
+          message
+        }
+      }
+    }`,
+    {
+      variables: {
+        input: {
+          email,
+          tags: ["raffle"],
+          ...(marketingConsent
+            ? {
+                emailMarketingConsent: {
+                  marketingState: "PENDING",
+                  marketingOptInLevel: "CONFIRMED_OPT_IN",
+                  consentUpdatedAt,
+                },
+              }
+            : {}),
+        },
+      },
+    }
+  );
+  const createJson = await createResponse.json();
+  const result = createJson.data?.customerCreate;
+  const userErrors: UserError[] = result?.userErrors || [];
+
+  if (userErrors.length > 0) {
+    console.error("Failed to create raffle customer:", userErrors);
+    return { customerId: null, error: formatUserErrors(userErrors) };
+  }
+
+  const customerId: string | undefined = result?.customer?.id;
+  return { customerId: customerId?.split("/").pop() ?? null, error: null };
+}
+
+/**
+ * Records the email a shopper entered the raffle with. Entering again
+ * updates the lead, and only ever adds consent.
+ */
+export async function saveRaffleLead({
+  shop,
+  email,
+  customerId,
+  campaignId,
+  marketingConsent,
+}: RaffleLeadInput) {
+  return db.raffleLead.upsert({
+    where: { shop_email: { shop, email } },
+    create: { shop, email, customerId, campaignId, marketingConsent },
+    update: {
+      customerId,
+      campaignId,
+      ...(marketingConsent ? { marketingConsent } : {}),
+    },
+  });
+}
+
+export async function getRaffleLeads(shop: string) {
+  return db.raffleLead.findMany({
+    where: { shop },
+    orderBy: { createdAt: "desc" },
+  });
+}
+
+/**
+ * Quotes a CSV value when needed. Values spreadsheets would run as a
+ * formula, like an email typed as `=HYPERLINK(...)`, are prefixed with `'`.
+ */
+function escapeCsv(value: string) {
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\n]/.test(safe) || safe !== value
+    ? `"${safe.replace(/"/g, '""')}"`
+    : safe;
+}
+
+/**
+ * Formats leads as CSV, one row per lead.
+ */
+export function raffleLeadsToCsv(
+  leads: Awaited<ReturnType<typeof getRaffleLeads>>,
+) {
+  const rows = [
+    ["Email", "Marketing consent", "Customer ID", "Campaign ID", "Entered at"],
+    ...leads.map((lead) => [
+      lead.email,
+      lead.marketingConsent ? "yes" : "no",
+      lead.customerId ?? "",
+      lead.campaignId !== null ? String(lead.campaignId) : "",
+      lead.createdAt.toISOString(),
+    ]),
+  ];
+
+  return rows.map((row) => row.map(escapeCsv).join(",")).join("\n");
+}
@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { getRaffleProxyMessages } from "./raffle-messages.server";
+
+function request(locale: string | null, acceptLanguage = "") {
+  const search = locale ? `?locale=${locale}` : "";
+  return new Request(`https://app.example.com/api/raffle${search}`, {
+    headers: { "Accept-Language": acceptLanguage },
+  });
+}
+
+describe("getRaffleProxyMessages", () => {
+  it("uses the storefront's locale", () => {
+    expect(getRaffleProxyMessages(request("fr-CA")).loginRequired).toBe(
+      "Connectez-vous pour jouer à la tombola",
+    );
+  });
+
+  it("falls back to the shopper's Accept-Language", () => {
+    expect(
+      getRaffleProxyMessages(request(null, "de-DE, fr;q=0.8")).loginRequired,
+    ).toBe("Connectez-vous pour jouer à la tombola");
+  });
+
+  it("serves English for unsupported languages", () => {
+    for (const locale of ["de", "constructor", "__proto__", "toString"]) {
+      expect(getRaffleProxyMessages(request(locale)).loginRequired).toBe(
+        "Log in to play the raffle",
+      );
+    }
+  });
+});
@@ -0,0 +1,69 @@
+const RAFFLE_PROXY_MESSAGES = {
+  en: {
+    cartTokenRequired: "cart_token is required",
+    rateLimited: "Too many raffle requests, please try again later",
+    dailyWinCap: "All of today's raffle prizes have been given out",
+    noActiveCampaign: "No raffle campaign is active",
+    loginRequired: "Log in to play the raffle",
+    invalidEmail: "Enter a valid email",
+    consentRequired: "Accept email marketing to play the raffle",
+    unavailable: "The raffle is unavailable",
+    emailNotSaved: "We couldn't save your email",
+    emailRequired: "Enter your email to play the raffle",
+    prizeExpired: "Your raffle prize expired",
+    codeNotCreated: "We couldn't create your discount code",
+    methodNotAllowed: "Method not allowed",
+    invalidBody: "Invalid request body",
+  },
+  fr: {
+    cartTokenRequired: "cart_token est requis",
+    rateLimited: "Trop de demandes, veuillez réessayer plus tard",
+    dailyWinCap: "Tous les prix du jour ont été distribués",
+    noActiveCampaign: "Aucune tombola n'est en cours",
+    loginRequired: "Connectez-vous pour jouer à la tombola",
+    invalidEmail: "Saisissez une adresse e-mail valide",
+    consentRequired: "Acceptez de recevoir des e-mails pour jouer à la tombola",
+    unavailable: "La tombola n'est pas disponible",
+    emailNotSaved: "Nous n'avons pas pu enregistrer votre e-mail",
+    emailRequired: "Saisissez votre e-mail pour jouer à la tombola",
+    prizeExpired: "Votre prix a expiré",
+    codeNotCreated: "Nous n'avons pas pu créer votre code de réduction",
+    methodNotAllowed: "Méthode non autorisée",
+    invalidBody: "Corps de requête non valide",
+  },
+};
+
+export type RaffleProxyMessages = (typeof RAFFLE_PROXY_MESSAGES)["en"];
+
+type RaffleProxyLanguage = keyof typeof RAFFLE_PROXY_MESSAGES;
+
+function isSupportedLanguage(
+  language: string,
+): language is RaffleProxyLanguage {
+  return Object.hasOwn(RAFFLE_PROXY_MESSAGES, language);
+}
+
+/**
+ * The app proxy's error messages in the storefront's language. raffle.js
+ * sends the storefront locale along, and the shopper's Accept-Language
+ * header is used when it doesn't. Unsupported languages get English.
+ */
+export function getRaffleProxyMessages(request: Request): RaffleProxyMessages {
+  const url = new URL(request.url);
+  const locales = [
+    url.searchParams.get("locale"),
+    ...(request.headers.get("Accept-Language") ?? "")
+      .split(",")
+      .map((entry) => entry.split(";")[0].trim()),
+  ];
+
+  for (const locale of locales) {
+    // "fr-CA" is served the "fr" messages
+    const language = locale?.split("-")[0].toLowerCase();
+    if (language && isSupportedLanguage(language)) {
+      return RAFFLE_PROXY_MESSAGES[language];
+    }
+  }
+
+  return RAFFLE_PROXY_MESSAGES.en;
+}
@@ -0,0 +1,122 @@
+import type { AdminApiContext } from "@shopify/shopify-app-react-router/server";
+import type { RaffleCampaign } from "@prisma/client";
+import {
+  createRaffleCampaignDiscount,
+  getCampaignState,
+  getOpenRaffleCampaigns,
+  getRaffleCampaign,
+} from "./raffle-campaign.server";
+import {
+  deactivateRaffleDiscount,
+  findRaffleFunction,
+  getRaffleDiscountStatuses,
+  updateRaffleDiscountSchedule,
+} from "./raffle-discount.server";
+
+/**
+ * What's wrong with a campaign's discount: it was never recorded, the
+ * merchant deleted it, or the merchant deactivated it while the campaign
+ * is still meant to run.
+ */
+export type RaffleDiscountProblem = "missing" | "deleted" | "inactive";
+
+export interface RaffleCampaignHealth {
+  campaignId: number;
+  name: string;
+  problem: RaffleDiscountProblem;
+}
+
+export interface RaffleSetupHealth {
+  functionDeployed: boolean;
+  campaigns: RaffleCampaignHealth[];
+}
+
+function getDiscountProblem(
+  campaign: RaffleCampaign,
+  statuses: Map<string, string>,
+): RaffleDiscountProblem | null {
+  if (!campaign.discountId) {
+    return "missing";
+  }
+
+  const status = statuses.get(campaign.discountId);
+  if (!status) {
+    return "deleted";
+  }
+
+  // Paused campaigns deactivate their discount on purpose
+  const state = getCampaignState(campaign);
+  if (state !== "paused" && status === "EXPIRED") {
+    return "inactive";
+  }
+
+  return null;
+}
+
+/**
+ * Checks that the raffle function is deployed and that every campaign that
+ * hasn't ended still has a working discount. Only campaigns with a problem
+ * are listed.
+ */
+export async function getRaffleSetupHealth(
+  admin: AdminApiContext,
+  shop: string,
+): Promise<RaffleSetupHealth> {
+  const raffleFunction = await findRaffleFunction(admin);
+  const campaigns = await getOpenRaffleCampaigns(shop);
+  const statuses = await getRaffleDiscountStatuses(
+    admin,
+    campaigns.flatMap((campaign) =>
+      campaign.discountId ? [campaign.discountId] : [],
+    ),
+  );
+
+  return {
+    functionDeployed: raffleFunction !== null,
+    campaigns: campaigns.flatMap((campaign) => {
+      const problem = getDiscountProblem(campaign, statuses);
+      return problem
+        ? [{ campaignId: campaign.id, name: campaign.name, problem }]
+        : [];
+    }),
+  };
+}
+
+/**
+ * Fixes a campaign's discount: a deleted or missing one is created again,
+ * and a deactivated one is put back on the campaign's schedule.
+ *
+ * Returns an error message, or null on success.
+ */
+export async function repairRaffleCampaignDiscount(
+  admin: AdminApiContext,
+  campaign: RaffleCampaign,
+): Promise<string | null> {
+  const statuses = await getRaffleDiscountStatuses(
+    admin,
+    campaign.discountId ? [campaign.discountId] : [],
+  );
+  const problem = getDiscountProblem(campaign, statuses);
+
+  if (!problem) {
+    return "This campaign's discount is working";
+  }
+
+  if (problem === "inactive") {
+    return updateRaffleDiscountSchedule(admin, campaign.discountId!, {
+      startsAt: campaign.startsAt,
+      endsAt: campaign.endsAt,
+    });
+  }
+
+  const error = await createRaffleCampaignDiscount(admin, campaign);
+  if (error || getCampaignState(campaign) !== "paused") {
+    return error;
+  }
+
+  // The new discount stays off until the campaign is resumed
+  const repaired = await getRaffleCampaign(campaign.shop, campaign.id);
+  return repaired?.discountId
+    ? deactivateRaffleDiscount(admin, repaired.discountId)
+    : null;
+}
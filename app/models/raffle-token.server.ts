@@ -0,0 +1,66 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+
+/**
+ * The claims carried by a raffle token. The discount function only
+ * applies `prize` when the signature over these claims checks out and
+ * the prize is still in the shop's prize table.
+ */
+export interface RaffleTokenPayload {
+  prize: { id: string; type: string; value: number };
+  shop: string;
+  campaign: number | null;
+  cart: string;
+  // The GID of the logged-in customer the prize was drawn for, who the
+  // discount function then only applies it to
+  customer?: string;
+  // The message the discount function shows the prize's discount under,
+  // so the checkout banner can tell whether it applied
+  message?: string;
+  exp: number;
+}
+
+function sign(encodedPayload: string, secret: string): string {
+  return createHmac("sha256", secret).update(encodedPayload).digest("hex");
+}
+
+/**
+ * Signs the payload with the shop's raffle secret.
+ * Tokens have the form `<base64url(JSON payload)>.<hex HMAC-SHA256>`,
+ * which the discount function verifies against the same secret.
+ */
+export function createRaffleToken(
+  payload: RaffleTokenPayload,
+  secret: string,
+): string {
+  const encodedPayload = Buffer.from(JSON.stringify(payload)).toString(
+    "base64url",
+  );
+
+  return `${encodedPayload}.${sign(encodedPayload, secret)}`;
+}
+
+/**
+ * Returns the token's payload when it was signed with the secret, or null.
+ * The expiry isn't checked, so tokens can still be read after checkout.
+ */
+export function verifyRaffleToken(
+  token: string,
+  secret: string,
+): RaffleTokenPayload | null {
+  const [encodedPayload, signature] = token.split(".");
+  if (!encodedPayload || !signature) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(encodedPayload, secret));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(Buffer.from(encodedPayload, "base64url").toString());
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,201 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  findOrCreateRaffleDraw,
+  getRaffleDrawExpiry,
+  isDailyWinCapReached,
+} from "./raffle.server";
+import type { RafflePrize } from "./raffle.server";
+
+const { draws } = vi.hoisted(() => ({
+  draws: [] as Record<string, unknown>[],
+}));
+
+type Where = Record<string, unknown> & { OR?: Record<string, unknown>[] };
+type CountWhere = {
+  shop: string;
+  prizeType: { not: string };
+  createdAt: { gte: Date };
+};
+
+function matches(draw: Record<string, unknown>, where: Where) {
+  const { OR, ...fields } = where;
+  return (
+    Object.entries(fields).every(([key, value]) => draw[key] === value) &&
+    (!OR ||
+      OR.some((clause) =>
+        Object.entries(clause).every(([key, value]) => draw[key] === value),
+      ))
+  );
+}
+
+vi.mock("../db.server", () => ({
+  default: {
+    raffleDraw: {
+      findFirst: vi.fn(
+        async ({ where }: { where: Where }) =>
+          draws.find((draw) => matches(draw, where)) ?? null,
+      ),
+      count: vi.fn(
+        async ({ where }: { where: CountWhere }) =>
+          draws.filter(
+            (draw) =>
+              draw.shop === where.shop &&
+              draw.prizeType !== where.prizeType.not &&
+              (draw.createdAt as Date) >= where.createdAt.gte,
+          ).length,
+      ),
+      create: vi.fn(async ({ data }: { data: Record<string, unknown> }) => {
+        const draw = { id: draws.length + 1, createdAt: new Date(), ...data };
+        draws.push(draw);
+        return draw;
+      }),
+    },
+  },
+}));
+
+const PRIZES: RafflePrize[] = [5, 6, 7, 8, 9, 10].map((value) => ({
+  id: `percentage-${value}`,
+  type: "percentage",
+  value,
+  weight: 1,
+}));
+
+function identity(changes: {
+  cartToken: string;
+  customerId?: string | null;
+  clientIp?: string | null;
+}) {
+  return {
+    shop: "example.myshopify.com",
+    campaignId: 1,
+    customerId: null,
+    clientIp: null,
+    ...changes,
+  };
+}
+
+describe("findOrCreateRaffleDraw", () => {
+  beforeEach(() => {
+    draws.length = 0;
+  });
+
+  it("draws once per cart", async () => {
+    const first = await findOrCreateRaffleDraw(
+      identity({ cartToken: "cart-1" }),
+      PRIZES,
+    );
+    const again = await findOrCreateRaffleDraw(
+      identity({ cartToken: "cart-1" }),
+      PRIZES,
+    );
+
+    expect(again.id).toBe(first.id);
+    expect(draws).toHaveLength(1);
+  });
+
+  it("doesn't roll again for a new cart token from the same client", async () => {
+    const first = await findOrCreateRaffleDraw(
+      identity({ cartToken: "cart-1", clientIp: "203.0.113.7" }),
+      PRIZES,
+    );
+    const reroll = await findOrCreateRaffleDraw(
+      identity({ cartToken: "made-up-cart", clientIp: "203.0.113.7" }),
+      PRIZES,
+    );
+
+    expect(reroll.id).toBe(first.id);
+    expect(draws).toHaveLength(1);
+  });
+
+  it("doesn't roll again for a logged-in customer's other carts", async () => {
+    const first = await findOrCreateRaffleDraw(
+      identity({ cartToken: "cart-1", customerId: "1" }),
+      PRIZES,
+    );
+    const reroll = await findOrCreateRaffleDraw(
+      identity({ cartToken: "cart-2", customerId: "1" }),
+      PRIZES,
+    );
+
+    expect(reroll.id).toBe(first.id);
+  });
+
+  it("draws for other clients", async () => {
+    await findOrCreateRaffleDraw(
+      identity({ cartToken: "cart-1", clientIp: "203.0.113.7" }),
+      PRIZES,
+    );
+    await findOrCreateRaffleDraw(
+      identity({ cartToken: "cart-2", clientIp: "198.51.100.2" }),
+      PRIZES,
+    );
+
+    expect(draws).toHaveLength(2);
+  });
+});
+
+describe("isDailyWinCapReached", () => {
+  const NOW = new Date("2030-03-17T12:00:00Z");
+
+  function win(createdAt: string, prizeType = "percentage") {
+    draws.push({
+      shop: "example.myshopify.com",
+      prizeType,
+      createdAt: new Date(createdAt),
+    });
+  }
+
+  beforeEach(() => {
+    draws.length = 0;
+  });
+
+  it("isn't reached without a cap", async () => {
+    win("2030-03-17T08:00:00Z");
+
+    expect(
+      await isDailyWinCapReached("example.myshopify.com", null, NOW),
+    ).toBe(false);
+  });
+
+  it("counts today's winning draws against the cap", async () => {
+    win("2030-03-17T08:00:00Z");
+    expect(await isDailyWinCapReached("example.myshopify.com", 2, NOW)).toBe(
+      false,
+    );
+
+    win("2030-03-17T09:00:00Z");
+    expect(await isDailyWinCapReached("example.myshopify.com", 2, NOW)).toBe(
+      true,
+    );
+  });
+
+  it("doesn't count losing draws or yesterday's wins", async () => {
+    win("2030-03-17T08:00:00Z", "none");
+    win("2030-03-16T23:00:00Z");
+
+    expect(await isDailyWinCapReached("example.myshopify.com", 1, NOW)).toBe(
+      false,
+    );
+  });
+});
+
+describe("getRaffleDrawExpiry", () => {
+  const draw = { createdAt: new Date("2030-03-17T17:46:40Z") };
+
+  it("expires prizes at the shop's midnight a day after the draw", () => {
+    expect(getRaffleDrawExpiry(draw, 0).toISOString()).toBe(
+      "2030-03-19T00:00:00.000Z",
+    );
+  });
+
+  it("finds midnight in the shop's timezone", () => {
+    // 2030-03-19T03:46:40 in UTC+10, so the prize lasts until the 20th
+    expect(getRaffleDrawExpiry(draw, 600).toISOString()).toBe(
+      "2030-03-19T14:00:00.000Z",
+    );
+    // 2030-03-18T12:46:40 in UTC-5
+    expect(getRaffleDrawExpiry(draw, -300).toISOString()).toBe(
+      "2030-03-19T05:00:00.000Z",
+    );
+  });
+});
@@ -0,0 +1,627 @@
+import { randomBytes } from "node:crypto";
+import { Prisma } from "@prisma/client";
+import db from "../db.server";
+import { createRaffleToken } from "./raffle-token.server";
+
+// The app-owned discount metafield the raffle function reads its configuration from
+export const RAFFLE_CONFIG_NAMESPACE = "$app";
+export const RAFFLE_CONFIG_KEY = "raffle_config";
+
+// The cart attribute raffle.js stores the signed raffle token in. It ends
+// up in the order's note_attributes.
+export const RAFFLE_CART_ATTRIBUTE = "raffle_discount_amount";
+
+// How long a signed raffle token is honored after the draw, at least. Prizes
+// last until the end of the shop's day, see getRaffleDrawExpiry
+const RAFFLE_TOKEN_TTL_SECONDS = 24 * 60 * 60;
+
+export const RAFFLE_PRIZE_TYPES = [
+  "percentage",
+  "fixed_amount",
+  "free_shipping",
+  "product_percentage",
+  "none",
+] as const;
+
+export type RafflePrizeType = (typeof RAFFLE_PRIZE_TYPES)[number];
+
+export type RaffleDiscountClass = "ORDER" | "PRODUCT" | "SHIPPING";
+
+// Checkout truncates longer discount messages
+export const RAFFLE_DISCOUNT_MESSAGE_MAX_LENGTH = 50;
+
+// Matches DEFAULT_DISCOUNT_MESSAGE in
+// extensions/raffle-discount-function/src/raffle_prize.js
+const DEFAULT_RAFFLE_DISCOUNT_MESSAGE = "RAFFLE DISCOUNT";
+
+// How won prizes reach the cart: a signed token in the cart attribute that
+// the discount function verifies, or a single-use discount code
+export const RAFFLE_FULFILLMENT_MODES = ["attribute", "code"] as const;
+
+export type RaffleFulfillmentMode = (typeof RAFFLE_FULFILLMENT_MODES)[number];
+
+/**
+ * One entry of a shop's prize table. A prize's chance of being drawn is
+ * its weight divided by the total weight of the table.
+ *
+ * The value is a percentage for "percentage" and "product_percentage"
+ * prizes, and an amount in the shop's currency for "fixed_amount" prizes.
+ * Product prizes list either products or collections, and only discount
+ * lines whose product is listed, or belongs to one of the listed
+ * collections.
+ */
+export interface RafflePrize {
+  id: string;
+  type: RafflePrizeType;
+  value: number;
+  weight: number;
+  productIds?: string[];
+  collectionIds?: string[];
+}
+
+// Used until the merchant saves their own table: 5-10% with equal odds
+export const DEFAULT_PRIZE_TABLE: RafflePrize[] = [5, 6, 7, 8, 9, 10].map(
+  (value) => ({ id: `percentage-${value}`, type: "percentage", value, weight: 1 }),
+);
+
+/**
+ * Conditions a cart has to meet for its raffle prize to apply. The
+ * minimum subtotal is in the shop's currency, customer tags only let in
+ * logged-in customers with at least one of them, and lines in excluded
+ * collections are never discounted.
+ */
+export interface RaffleEligibilityRules {
+  minimumSubtotal: number | null;
+  customerTags: string[];
+  excludedCollectionIds: string[];
+}
+
+export const DEFAULT_ELIGIBILITY_RULES: RaffleEligibilityRules = {
+  minimumSubtotal: null,
+  customerTags: [],
+  excludedCollectionIds: [],
+};
+
+export interface RaffleDrawIdentity {
+  shop: string;
+  campaignId: number;
+  cartToken: string;
+  // Only the logged-in customer the app proxy forwards. Emails entered in
+  // the modal aren't verified, so they never identify a draw.
+  customerId: string | null;
+  // Cart tokens are sent by the browser, so the client's IP keeps made-up
+  // carts from getting new draws
+  clientIp: string | null;
+}
+
+/**
+ * Returns a validation error for the prize table, or null when it's valid.
+ */
+export function validatePrizeTable(prizes: RafflePrize[]): string | null {
+  if (!Array.isArray(prizes)) {
+    return "Invalid prize table";
+  }
+  if (prizes.length === 0) {
+    return "Add at least one prize";
+  }
+
+  for (const prize of prizes) {
+    if (typeof prize !== "object" || prize === null) {
+      return "Invalid prize table";
+    }
+    if (!prize.id || !RAFFLE_PRIZE_TYPES.includes(prize.type)) {
+      return "Every prize needs a valid type";
+    }
+    if (!Number.isFinite(prize.weight) || prize.weight <= 0) {
+      return "Prize weights must be greater than 0";
+    }
+    if (
+      (prize.type === "percentage" || prize.type === "product_percentage") &&
+      (!Number.isFinite(prize.value) || prize.value <= 0 || prize.value > 100)
+    ) {
+      return "Percentage prizes must be between 0 and 100";
+    }
+    if (
+      prize.type === "fixed_amount" &&
+      (!Number.isFinite(prize.value) || prize.value <= 0)
+    ) {
+      return "Fixed amount prizes must be greater than 0";
+    }
+    if (
+      prize.type === "product_percentage" &&
+      !prize.productIds?.length &&
+      !prize.collectionIds?.length
+    ) {
+      return "Product prizes need at least one product or collection";
+    }
+    // Discount codes can only target products or collections, see
+    // getCustomerGets in raffle-code.server.ts
+    if (
+      prize.type === "product_percentage" &&
+      prize.productIds?.length &&
+      prize.collectionIds?.length
+    ) {
+      return "Product prizes can apply to products or collections, not both";
+    }
+  }
+
+  if (new Set(prizes.map((prize) => prize.id)).size !== prizes.length) {
+    return "Prize ids must be unique";
+  }
+
+  return null;
+}
+
+/**
+ * Parses a stored prize table, falling back to the default table when
+ * none was saved.
+ */
+export function parsePrizeTable(prizeTable: string | null): RafflePrize[] {
+  if (!prizeTable) {
+    return DEFAULT_PRIZE_TABLE;
+  }
+
+  return JSON.parse(prizeTable);
+}
+
+/**
+ * Returns a validation error for the eligibility rules, or null when
+ * they're valid.
+ */
+export function validateEligibilityRules(
+  rules: RaffleEligibilityRules,
+): string | null {
+  if (
+    rules.minimumSubtotal !== null &&
+    (!Number.isFinite(rules.minimumSubtotal) || rules.minimumSubtotal <= 0)
+  ) {
+    return "The minimum subtotal must be greater than 0";
+  }
+  if (
+    !Array.isArray(rules.customerTags) ||
+    rules.customerTags.some((tag) => !tag)
+  ) {
+    return "Customer tags can't be empty";
+  }
+  if (!Array.isArray(rules.excludedCollectionIds)) {
+    return "Invalid excluded collections";
+  }
+
+  return null;
+}
+
+/**
+ * Returns a validation error for the checkout discount message, or null
+ * when it's valid. No message means the function's default one.
+ */
+export function validateDiscountMessage(
+  discountMessage: string | null,
+): string | null {
+  if (
+    discountMessage !== null &&
+    discountMessage.length > RAFFLE_DISCOUNT_MESSAGE_MAX_LENGTH
+  ) {
+    return `The discount message can be at most ${RAFFLE_DISCOUNT_MESSAGE_MAX_LENGTH} characters`;
+  }
+
+  return null;
+}
+
+/**
+ * The message the discount function gives a prize's discount, which
+ * checkout shows and orders list as the discount's title instead of the
+ * discount's own title. Matches getRaffleDiscountMessage in
+ * extensions/raffle-discount-function/src/raffle_prize.js.
+ */
+export function getRaffleDiscountMessage(
+  prize: { type: string; value: number },
+  discountMessage: string | null,
+): string {
+  if (prize.type === "free_shipping") {
+    return "FREE SHIPPING";
+  }
+
+  const message = discountMessage?.trim() || DEFAULT_RAFFLE_DISCOUNT_MESSAGE;
+  return prize.type === "fixed_amount"
+    ? message
+    : `${Number(prize.value)}% ${message}`;
+}
+
+/**
+ * Parses stored eligibility rules. Shops that never saved any have none.
+ */
+export function parseEligibilityRules(
+  eligibilityRules: string | null,
+): RaffleEligibilityRules {
+  if (!eligibilityRules) {
+    return DEFAULT_ELIGIBILITY_RULES;
+  }
+
+  return { ...DEFAULT_ELIGIBILITY_RULES, ...JSON.parse(eligibilityRules) };
+}
+
+/**
+ * The discount classes a raffle discount needs so the function can apply
+ * every prize in the table. Shipping is only requested when the table has
+ * a free shipping prize, so other carts never get a shipping discount.
+ */
+export function getRaffleDiscountClasses(
+  prizes: RafflePrize[],
+): RaffleDiscountClass[] {
+  const classes = new Set<RaffleDiscountClass>();
+
+  for (const prize of prizes) {
+    if (prize.type === "percentage" || prize.type === "fixed_amount") {
+      classes.add("ORDER");
+    } else if (prize.type === "product_percentage") {
+      classes.add("PRODUCT");
+    } else if (prize.type === "free_shipping") {
+      classes.add("SHIPPING");
+    }
+  }
+
+  // A discount needs at least one class, even when nothing can be won
+  return classes.size > 0 ? [...classes] : ["ORDER"];
+}
+
+/**
+ * Picks a prize at random, weighted by each prize's weight.
+ */
+function drawPrize(prizes: RafflePrize[]): RafflePrize {
+  const totalWeight = prizes.reduce((total, prize) => total + prize.weight, 0);
+  let roll = Math.random() * totalWeight;
+
+  for (const prize of prizes) {
+    roll -= prize.weight;
+    if (roll < 0) {
+      return prize;
+    }
+  }
+
+  return prizes[prizes.length - 1];
+}
+
+/**
+ * Returns the draw already recorded in the campaign for this cart,
+ * logged-in customer or client IP, if any.
+ */
+export async function findRaffleDraw({
+  campaignId,
+  cartToken,
+  customerId,
+  clientIp,
+}: Omit<RaffleDrawIdentity, "shop">) {
+  return db.raffleDraw.findFirst({
+    where: {
+      campaignId,
+      OR: [
+        { cartToken },
+        ...(customerId ? [{ customerId }] : []),
+        ...(clientIp ? [{ clientIp }] : []),
+      ],
+    },
+    orderBy: { createdAt: "asc" },
+  });
+}
+
+/**
+ * Whether the shop already gave out its daily cap of winning draws
+ * today (UTC). Shops without a cap never reach it.
+ */
+export async function isDailyWinCapReached(
+  shop: string,
+  dailyWinCap: number | null,
+  now = new Date(),
+): Promise<boolean> {
+  if (dailyWinCap === null) {
+    return false;
+  }
+
+  const startOfDay = new Date(
+    Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()),
+  );
+  const wins = await db.raffleDraw.count({
+    where: { shop, prizeType: { not: "none" }, createdAt: { gte: startOfDay } },
+  });
+
+  return wins >= dailyWinCap;
+}
+
+/**
+ * Returns the draw already recorded in the campaign for this cart,
+ * logged-in customer or client IP, so a shopper can't reroll by clearing
+ * storage, starting a new session or sending made-up cart tokens. A new
+ * prize is only drawn when none of them has played the campaign before.
+ */
+export async function findOrCreateRaffleDraw(
+  { shop, campaignId, cartToken, customerId, clientIp }: RaffleDrawIdentity,
+  prizes: RafflePrize[],
+) {
+  const existing = await findRaffleDraw({
+    campaignId,
+    cartToken,
+    customerId,
+    clientIp,
+  });
+
+  if (existing) {
+    return existing;
+  }
+
+  const prize = drawPrize(prizes);
+
+  try {
+    return await db.raffleDraw.create({
+      data: {
+        shop,
+        campaignId,
+        cartToken,
+        customerId,
+        clientIp,
+        prizeId: prize.id,
+        prizeType: prize.type,
+        prizeValue: prize.value,
+      },
+    });
+  } catch (error) {
+    // A concurrent request for the same cart won the insert, so hand back
+    // its draw instead of a second roll.
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2002"
+    ) {
+      return db.raffleDraw.findUniqueOrThrow({
+        where: { campaignId_cartToken: { campaignId, cartToken } },
+      });
+    }
+
+    throw error;
+  }
+}
+
+/**
+ * Returns the raffle settings for a shop, generating its signing secret
+ * the first time the shop is seen.
+ */
+export async function getRaffleSettings(shop: string) {
+  return db.raffleSettings.upsert({
+    where: { shop },
+    create: { shop, signingSecret: randomBytes(32).toString("hex") },
+    update: {},
+  });
+}
+
+/**
+ * Saves the shop's prize table. Callers validate it first.
+ */
+export async function updatePrizeTable(shop: string, prizes: RafflePrize[]) {
+  await getRaffleSettings(shop);
+
+  return db.raffleSettings.update({
+    where: { shop },
+    data: { prizeTable: JSON.stringify(prizes) },
+  });
+}
+
+/**
+ * Saves the most winning draws the shop gives out per day, or null for
+ * no cap.
+ */
+export async function updateDailyWinCap(
+  shop: string,
+  dailyWinCap: number | null,
+) {
+  await getRaffleSettings(shop);
+
+  return db.raffleSettings.update({
+    where: { shop },
+    data: { dailyWinCap },
+  });
+}
+
+/**
+ * Saves how the shop's won prizes are applied to the cart.
+ */
+export async function updateFulfillmentMode(
+  shop: string,
+  fulfillment: RaffleFulfillmentMode,
+) {
+  await getRaffleSettings(shop);
+
+  return db.raffleSettings.update({
+    where: { shop },
+    data: { fulfillment },
+  });
+}
+
+/**
+ * Saves what shoppers have to do before they can play: log in to the
+ * storefront, or enter their email, optionally with marketing consent.
+ */
+export async function updatePlayerRequirements(
+  shop: string,
+  requirements: {
+    requireLogin: boolean;
+    requireEmail: boolean;
+    requireConsent: boolean;
+  },
+) {
+  await getRaffleSettings(shop);
+
+  return db.raffleSettings.update({
+    where: { shop },
+    data: requirements,
+  });
+}
+
+/**
+ * Saves the message checkout shows for won prizes, or null for the
+ * function's default message. Callers validate it first.
+ */
+export async function updateDiscountMessage(
+  shop: string,
+  discountMessage: string | null,
+) {
+  await getRaffleSettings(shop);
+
+  return db.raffleSettings.update({
+    where: { shop },
+    data: { discountMessage },
+  });
+}
+
+/**
+ * Saves the shop's eligibility rules. Callers validate them first.
+ */
+export async function updateEligibilityRules(
+  shop: string,
+  rules: RaffleEligibilityRules,
+) {
+  await getRaffleSettings(shop);
+
+  return db.raffleSettings.update({
+    where: { shop },
+    data: { eligibilityRules: JSON.stringify(rules) },
+  });
+}
+
+/**
+ * The configuration synced into a campaign's raffle discount metafield,
+ * which the discount function uses to verify raffle tokens and their
+ * prizes, to check the cart is eligible for them, and to ignore expired
+ * ones.
+ */
+export function buildRaffleDiscountConfiguration(
+  settings: {
+    signingSecret: string;
+    prizeTable: string | null;
+    eligibilityRules: string | null;
+    discountMessage: string | null;
+  },
+  campaignId: number,
+  timezoneOffsetMinutes: number,
+) {
+  const prizes = parsePrizeTable(settings.prizeTable);
+  const { minimumSubtotal, customerTags, excludedCollectionIds } =
+    parseEligibilityRules(settings.eligibilityRules);
+
+  return {
+    signingSecret: settings.signingSecret,
+    campaignId,
+    timezoneOffsetMinutes,
+    discountMessage: settings.discountMessage,
+    minimumSubtotal,
+    // Like collectionIds, customerTags and excludedCollectionIds are also
+    // variables of the function's input queries
+    customerTags,
+    excludedCollectionIds,
+    // The function's input query checks cart lines against these
+    // collections, see shopify.extension.toml
+    collectionIds: [
+      ...new Set(prizes.flatMap((prize) => prize.collectionIds ?? [])),
+    ],
+    prizes: prizes.map(({ id, type, value, productIds, collectionIds }) => ({
+      id,
+      type,
+      value,
+      ...(type === "product_percentage"
+        ? { productIds: productIds ?? [], collectionIds: collectionIds ?? [] }
+        : {}),
+    })),
+  };
+}
+
+/**
+ * The segments the raffle's game animations show, one per prize of the
+ * table, and the segment of the drawn prize. The game always lands on
+ * this segment, so the result can't be changed in the browser. Weights
+ * stay on the server.
+ */
+export function getRaffleGame(
+  prizes: RafflePrize[],
+  draw: { prizeId: string; prizeType: string; prizeValue: number },
+) {
+  const segments = prizes.map(({ type, value }) => ({ type, value }));
+  let segment = prizes.findIndex((prize) => prize.id === draw.prizeId);
+
+  // The prize was removed from the table after it was drawn
+  if (segment === -1) {
+    segments.push({
+      type: draw.prizeType as RafflePrizeType,
+      value: draw.prizeValue,
+    });
+    segment = segments.length - 1;
+  }
+
+  return { segments, segment };
+}
+
+/**
+ * When the tokens issued for a draw stop being honored. The expiry is
+ * pinned to the draw, so re-fetching doesn't extend it.
+ *
+ * The discount function only knows the shop's date, so prizes last until
+ * midnight in the shop's timezone, `timezoneOffsetMinutes` ahead of UTC,
+ * on the day they would otherwise lapse. Pass the campaign's offset, the
+ * one its discount's configuration carries.
+ */
+export function getRaffleDrawExpiry(
+  draw: { createdAt: Date },
+  timezoneOffsetMinutes: number,
+): Date {
+  const offset = timezoneOffsetMinutes * 60 * 1000;
+  const lapse = new Date(
+    draw.createdAt.getTime() + RAFFLE_TOKEN_TTL_SECONDS * 1000 + offset,
+  );
+
+  return new Date(
+    Date.UTC(
+      lapse.getUTCFullYear(),
+      lapse.getUTCMonth(),
+      lapse.getUTCDate() + 1,
+    ) - offset,
+  );
+}
+
+/**
+ * Issues the signed token stored in the cart's raffle attribute, expiring
+ * by the campaign's timezone offset. Pass the logged-in customer's id to
+ * only let their carts use the prize.
+ */
+export function issueRaffleToken(
+  draw: {
+    shop: string;
+    campaignId: number | null;
+    cartToken: string;
+    prizeId: string;
+    prizeType: string;
+    prizeValue: number;
+    createdAt: Date;
+  },
+  settings: { signingSecret: string; discountMessage: string | null },
+  timezoneOffsetMinutes: number,
+  loggedInCustomerId: string | null = null,
+): string {
+  const prize = {
+    id: draw.prizeId,
+    type: draw.prizeType,
+    value: draw.prizeValue,
+  };
+
+  return createRaffleToken(
+    {
+      prize,
+      shop: draw.shop,
+      campaign: draw.campaignId,
+      cart: draw.cartToken,
+      ...(loggedInCustomerId
+        ? { customer: `gid://shopify/Customer/${loggedInCustomerId}` }
+        : {}),
+      message: getRaffleDiscountMessage(prize, settings.discountMessage),
+      exp: Math.floor(
+        getRaffleDrawExpiry(draw, timezoneOffsetMinutes).getTime() / 1000,
+      ),
+    },
+    settings.signingSecret,
+  );
+}
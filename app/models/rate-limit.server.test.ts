@@ -0,0 +1,104 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { consumeRateLimit } from "./rate-limit.server";
+
+const { rateLimits } = vi.hoisted(() => ({
+  rateLimits: new Map<string, { count: number; expiresAt: Date }>(),
+}));
+
+vi.mock("../db.server", () => {
+  const raffleRateLimit = {
+    findUnique: vi.fn(
+      async ({ where }: { where: { key: string } }) =>
+        rateLimits.get(where.key) ?? null,
+    ),
+    deleteMany: vi.fn(
+      async ({ where }: { where: { expiresAt: { lte: Date } } }) => {
+        for (const [key, { expiresAt }] of rateLimits) {
+          if (expiresAt <= where.expiresAt.lte) {
+            rateLimits.delete(key);
+          }
+        }
+      },
+    ),
+    upsert: vi.fn(
+      async ({
+        where,
+        create,
+      }: {
+        where: { key: string };
+        create: { count: number; expiresAt: Date };
+      }) => {
+        rateLimits.set(where.key, {
+          count: create.count,
+          expiresAt: create.expiresAt,
+        });
+      },
+    ),
+    update: vi.fn(async ({ where }: { where: { key: string } }) => {
+      rateLimits.get(where.key)!.count += 1;
+    }),
+  };
+
+  return {
+    default: {
+      $transaction: vi.fn(
+        async (run: (tx: { raffleRateLimit: unknown }) => unknown) =>
+          run({ raffleRateLimit }),
+      ),
+    },
+  };
+});
+
+const RATE_LIMIT = { limit: 2, windowSeconds: 60 };
+const NOW = new Date("2030-03-17T12:00:00Z");
+
+function secondsLater(seconds: number) {
+  return new Date(NOW.getTime() + seconds * 1000);
+}
+
+describe("consumeRateLimit", () => {
+  beforeEach(() => {
+    rateLimits.clear();
+  });
+
+  it("allows requests up to the limit", async () => {
+    expect(await consumeRateLimit("ip:1", RATE_LIMIT, NOW)).toEqual({
+      allowed: true,
+      retryAfter: 60,
+    });
+    expect(
+      await consumeRateLimit("ip:1", RATE_LIMIT, secondsLater(10)),
+    ).toEqual({ allowed: true, retryAfter: 50 });
+    expect(
+      await consumeRateLimit("ip:1", RATE_LIMIT, secondsLater(20)),
+    ).toEqual({ allowed: false, retryAfter: 40 });
+  });
+
+  it("counts each key on its own", async () => {
+    await consumeRateLimit("ip:1", RATE_LIMIT, NOW);
+    await consumeRateLimit("ip:1", RATE_LIMIT, NOW);
+
+    expect((await consumeRateLimit("ip:2", RATE_LIMIT, NOW)).allowed).toBe(
+      true,
+    );
+  });
+
+  it("starts a new window once the last one ended", async () => {
+    await consumeRateLimit("ip:1", RATE_LIMIT, NOW);
+    await consumeRateLimit("ip:1", RATE_LIMIT, NOW);
+
+    expect(
+      await consumeRateLimit("ip:1", RATE_LIMIT, secondsLater(60)),
+    ).toEqual({ allowed: true, retryAfter: 60 });
+    expect(rateLimits.get("ip:1")?.count).toBe(1);
+  });
+
+  it("never asks clients to retry right away", async () => {
+    await consumeRateLimit("ip:1", RATE_LIMIT, NOW);
+    await consumeRateLimit("ip:1", RATE_LIMIT, NOW);
+
+    expect(
+      await consumeRateLimit("ip:1", RATE_LIMIT, secondsLater(59.9)),
+    ).toEqual({ allowed: false, retryAfter: 1 });
+  });
+});
@@ -0,0 +1,61 @@
+import db from "../db.server";
+
+export interface RateLimit {
+  limit: number;
+  windowSeconds: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  // Seconds until the current window ends
+  retryAfter: number;
+}
+
+/**
+ * Counts a request against a fixed-window limit stored in the app's
+ * database, so limits are shared by every app instance without needing
+ * Redis. The window starts with the first request for the key.
+ */
+export async function consumeRateLimit(
+  key: string,
+  { limit, windowSeconds }: RateLimit,
+  now = new Date(),
+): Promise<RateLimitResult> {
+  const result = await db.$transaction(async (tx) => {
+    const current = await tx.raffleRateLimit.findUnique({ where: { key } });
+
+    if (!current || current.expiresAt <= now) {
+      // Clear out ended windows whenever a new one starts, so the table
+      // only holds recent keys
+      await tx.raffleRateLimit.deleteMany({
+        where: { expiresAt: { lte: now } },
+      });
+
+      const expiresAt = new Date(now.getTime() + windowSeconds * 1000);
+      await tx.raffleRateLimit.upsert({
+        where: { key },
+        create: { key, count: 1, expiresAt },
+        update: { count: 1, expiresAt },
+      });
+      return { allowed: true, expiresAt };
+    }
+
+    if (current.count >= limit) {
+      return { allowed: false, expiresAt: current.expiresAt };
+    }
+
+    await tx.raffleRateLimit.update({
+      where: { key },
+      data: { count: { increment: 1 } },
+    });
+    return { allowed: true, expiresAt: current.expiresAt };
+  });
+
+  return {
+    allowed: result.allowed,
+    retryAfter: Math.max(
+      1,
+      Math.ceil((result.expiresAt.getTime() - now.getTime()) / 1000),
+    ),
+  };
+}
@@ -1,3 +1,6 @@
 import { flatRoutes } from "@react-router/fs-routes";
 
-export default flatRoutes();
+export default flatRoutes({
+  // Tests live next to the routes they cover
+  ignoredRouteFiles: ["**/*.test.*"],
+});
@@ -0,0 +1,111 @@
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "react-router";
+import { authenticate } from "../shopify.server";
+import {
+  approveCancellationRequest,
+  denyCancellationRequest,
+  findCancellationRequest,
+  getCancellationRequest,
+  validateDecisionNote,
+} from "../models/cancellation-request.server";
+import {
+  CANCELLATION_REASON_LABELS,
+  isCancellationReason,
+} from "../models/order-cancel.server";
+import {
+  findOrderCancellation,
+  syncOrderCancellationJob,
+} from "../models/cancellation-job.server";
+
+/**
+ * Customers' cancellation requests, for the admin-cancellation-request
+ * extension on the order's page to show and decide, along with whether
+ * the order's cancellation is still running or failed.
+ */
+interface CancellationDecisionBody {
+  requestId: number;
+  decision: "approve" | "deny";
+  note?: string;
+}
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+// The extension's preflight (OPTIONS) requests are answered by authenticate.admin
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { admin, cors, session } = await authenticate.admin(request);
+
+  const orderId = new URL(request.url).searchParams.get("orderId");
+  if (!orderId) {
+    return cors(json({ error: "orderId is required" }, 400));
+  }
+
+  const cancellationRequest = await findCancellationRequest(
+    session.shop,
+    orderId,
+  );
+
+  let cancellation = await findOrderCancellation(session.shop, orderId);
+  if (cancellation?.status === "pending") {
+    cancellation = await syncOrderCancellationJob(admin, cancellation);
+  }
+
+  return cors(
+    json({
+      request: cancellationRequest && {
+        ...cancellationRequest,
+        reasonLabel: isCancellationReason(cancellationRequest.reason)
+          ? CANCELLATION_REASON_LABELS[cancellationRequest.reason]
+          : cancellationRequest.reason,
+      },
+      cancellation: cancellation && {
+        id: cancellation.id,
+        status: cancellation.status,
+        error: cancellation.error,
+      },
+    }),
+  );
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { admin, cors, session } = await authenticate.admin(request);
+
+  let body: CancellationDecisionBody;
+  try {
+    body = await request.json();
+  } catch {
+    return cors(json({ success: false, error: "Invalid request body" }, 400));
+  }
+
+  const note = body.note?.trim() || null;
+  const noteError = validateDecisionNote(note);
+  if (noteError) {
+    return cors(json({ success: false, error: noteError }, 400));
+  }
+
+  const cancellationRequest = await getCancellationRequest(
+    session.shop,
+    Number(body.requestId),
+  );
+  if (!cancellationRequest) {
+    return cors(json({ success: false, error: "Request not found" }, 404));
+  }
+
+  let error: string | null;
+  if (body.decision === "approve") {
+    error = await approveCancellationRequest(admin, cancellationRequest, note);
+  } else if (body.decision === "deny") {
+    error = await denyCancellationRequest(cancellationRequest, note);
+  } else {
+    return cors(json({ success: false, error: "Unknown decision" }, 400));
+  }
+
+  if (error) {
+    return cors(json({ success: false, error }, 422));
+  }
+
+  return cors(json({ success: true }));
+};
@@ -0,0 +1,428 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { action } from "./api.order-cancel";
+
+const {
+  adminGraphql,
+  cancellations,
+  createCancellation,
+  createRequest,
+  findRequest,
+  upsertSettings,
+} = vi.hoisted(() => {
+  // Recorded cancellations by id, so their job status can be updated
+  const cancellations = new Map<number, Record<string, unknown>>();
+
+  return {
+    adminGraphql: vi.fn(),
+    cancellations,
+    createCancellation: vi.fn(
+      async ({ data }: { data: Record<string, unknown> }) => {
+        const cancellation = {
+          id: cancellations.size + 1,
+          status: "pending",
+          ...data,
+        };
+        cancellations.set(cancellation.id, cancellation);
+        return cancellation;
+      },
+    ),
+    createRequest: vi.fn(),
+    findRequest: vi.fn(),
+    upsertSettings: vi.fn(),
+  };
+});
+
+const DEFAULT_SETTINGS = {
+  shop: "example.myshopify.com",
+  windowMinutes: null,
+  requireUnfulfilled: true,
+  requireUncaptured: false,
+  excludedProductTags: null,
+  maxOrderValue: null,
+  approvalAboveValue: null,
+  approvalWhenPaid: false,
+  refundToOriginalPayment: true,
+  refundToStoreCredit: false,
+  storeCreditBonusPercent: null,
+  excludedRestockLocationIds: null,
+};
+
+vi.mock("../shopify.server", () => ({
+  authenticate: {
+    public: {
+      customerAccount: vi.fn(async () => ({
+        cors: (response: Response) => response,
+        sessionToken: {
+          dest: "https://example.myshopify.com",
+          sub: "gid://shopify/Customer/1",
+        },
+      })),
+    },
+  },
+  unauthenticated: {
+    admin: vi.fn(async () => ({ admin: { graphql: adminGraphql } })),
+  },
+}));
+
+vi.mock("../db.server", () => ({
+  default: {
+    cancellationSettings: { upsert: upsertSettings },
+    orderCancellation: {
+      create: createCancellation,
+      updateMany: vi.fn(
+        async ({
+          where,
+          data,
+        }: {
+          where: { id: number; status: string };
+          data: Record<string, unknown>;
+        }) => {
+          const cancellation = cancellations.get(where.id);
+          if (cancellation?.status !== where.status) return { count: 0 };
+
+          Object.assign(cancellation, data);
+          return { count: 1 };
+        },
+      ),
+      findUnique: vi.fn(async ({ where }: { where: { id: number } }) =>
+        cancellations.get(where.id),
+      ),
+    },
+    cancellationRequest: {
+      findFirst: findRequest,
+      create: createRequest,
+    },
+  },
+}));
+
+function graphqlResponse(data: unknown) {
+  return new Response(JSON.stringify({ data }));
+}
+
+function orderCancelStarted() {
+  return graphqlResponse({
+    orderCancel: {
+      job: { id: "gid://shopify/Job/1" },
+      orderCancelUserErrors: [],
+    },
+  });
+}
+
+function orderCancelJob(done: boolean, cancelled: boolean) {
+  return graphqlResponse({
+    job: { done },
+    order: { cancelledAt: cancelled ? new Date().toISOString() : null },
+  });
+}
+
+function orderPlacedBy(customer: { id: string } | null) {
+  return graphqlResponse({
+    order: {
+      id: "gid://shopify/Order/1",
+      customer,
+      createdAt: new Date().toISOString(),
+      displayFulfillmentStatus: "UNFULFILLED",
+      displayFinancialStatus: "PAID",
+      totalPriceSet: { shopMoney: { amount: "50.0" } },
+      totalReceivedSet: {
+        presentmentMoney: { amount: "50.0", currencyCode: "CAD" },
+      },
+      lineItems: {
+        nodes: [
+          {
+            title: "Snowboard",
+            quantity: 1,
+            product: { id: "gid://shopify/Product/1", tags: [] },
+          },
+        ],
+      },
+    },
+  });
+}
+
+function cancelRequest(
+  orderId = "gid://shopify/Order/1",
+  reason = "found_cheaper",
+  note = "",
+  refundMethod?: string,
+) {
+  const request = new Request("https://app.example.com/api/order-cancel", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ orderId, reason, note, refundMethod }),
+  });
+
+  return action({
+    request,
+    params: {},
+    context: {},
+    unstable_pattern: "/api/order-cancel",
+  });
+}
+
+describe("api.order-cancel action", () => {
+  beforeEach(() => {
+    adminGraphql.mockReset();
+    createCancellation.mockReset();
+    createRequest.mockReset();
+    findRequest.mockReset().mockResolvedValue(null);
+    cancellations.clear();
+    upsertSettings.mockReset().mockResolvedValue(DEFAULT_SETTINGS);
+  });
+
+  it("cancels an order the customer placed", async () => {
+    adminGraphql
+      .mockResolvedValueOnce(orderPlacedBy({ id: "gid://shopify/Customer/1" }))
+      .mockResolvedValueOnce(orderCancelStarted())
+      .mockResolvedValueOnce(orderCancelJob(true, true))
+      .mockResolvedValueOnce(graphqlResponse({ tagsAdd: { userErrors: [] } }));
+
+    const response = await cancelRequest();
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({
+      success: true,
+      status: "cancelled",
+      jobId: "gid://shopify/Job/1",
+    });
+    expect(adminGraphql).toHaveBeenCalledTimes(4);
+    expect(adminGraphql.mock.calls[1][0]).toContain("orderCancel(");
+    expect(adminGraphql.mock.calls[1][1].variables).toMatchObject({
+      restock: true,
+      refundMethod: { originalPaymentMethodsRefund: true },
+    });
+  });
+
+  it("refunds store credit with the shop's bonus", async () => {
+    upsertSettings.mockResolvedValue({
+      ...DEFAULT_SETTINGS,
+      refundToStoreCredit: true,
+      storeCreditBonusPercent: 10,
+    });
+    adminGraphql
+      .mockResolvedValueOnce(orderPlacedBy({ id: "gid://shopify/Customer/1" }))
+      .mockResolvedValueOnce(orderCancelStarted())
+      .mockResolvedValueOnce(orderCancelJob(true, true))
+      .mockResolvedValueOnce(graphqlResponse({ tagsAdd: { userErrors: [] } }))
+      .mockResolvedValueOnce(
+        graphqlResponse({ storeCreditAccountCredit: { userErrors: [] } }),
+      );
+
+    const response = await cancelRequest(
+      "gid://shopify/Order/1",
+      "found_cheaper",
+      "",
+      "store_credit",
+    );
+
+    expect(response.status).toBe(200);
+    expect(adminGraphql.mock.calls[1][1].variables.refundMethod).toEqual({
+      storeCreditRefund: {},
+    });
+    expect(adminGraphql.mock.calls[4][1].variables).toEqual({
+      id: "gid://shopify/Customer/1",
+      creditInput: { creditAmount: { amount: "5.00", currencyCode: "CAD" } },
+    });
+    expect(createCancellation).toHaveBeenCalledWith({
+      data: expect.objectContaining({ refundMethod: "store_credit" }),
+    });
+  });
+
+  it("refuses refund methods the shop doesn't offer", async () => {
+    const response = await cancelRequest(
+      "gid://shopify/Order/1",
+      "found_cheaper",
+      "",
+      "store_credit",
+    );
+
+    expect(response.status).toBe(400);
+    expect(adminGraphql).not.toHaveBeenCalled();
+  });
+
+  it("records the customer's reason on the order and for the report", async () => {
+    adminGraphql
+      .mockResolvedValueOnce(orderPlacedBy({ id: "gid://shopify/Customer/1" }))
+      .mockResolvedValueOnce(orderCancelStarted())
+      .mockResolvedValueOnce(orderCancelJob(true, true))
+      .mockResolvedValueOnce(graphqlResponse({ tagsAdd: { userErrors: [] } }));
+
+    await cancelRequest("gid://shopify/Order/1", "other", " Changed my mind ");
+
+    expect(adminGraphql.mock.calls[1][1].variables.staffNote).toBe(
+      'Cancelled by the customer: Other. "Changed my mind"',
+    );
+    expect(adminGraphql.mock.calls[3][1].variables.tags).toEqual([
+      "cancel-reason-other",
+    ]);
+    expect(createCancellation).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        orderId: "gid://shopify/Order/1",
+        customerId: "gid://shopify/Customer/1",
+        reason: "other",
+        note: "Changed my mind",
+      }),
+    });
+  });
+
+  it("requires a reason", async () => {
+    const response = await cancelRequest("gid://shopify/Order/1", "");
+
+    expect(response.status).toBe(400);
+    expect(adminGraphql).not.toHaveBeenCalled();
+  });
+
+  it("requires a note for other reasons", async () => {
+    const response = await cancelRequest("gid://shopify/Order/1", "other", " ");
+
+    expect(response.status).toBe(400);
+    expect(adminGraphql).not.toHaveBeenCalled();
+  });
+
+  it("refuses to cancel another customer's order", async () => {
+    adminGraphql.mockResolvedValueOnce(
+      orderPlacedBy({ id: "gid://shopify/Customer/2" }),
+    );
+
+    const response = await cancelRequest();
+
+    expect(response.status).toBe(403);
+    expect(await response.json()).toEqual({
+      errors: [{ message: "You can only cancel your own orders" }],
+    });
+    // Only the order was looked up, it was never cancelled
+    expect(adminGraphql).toHaveBeenCalledTimes(1);
+    expect(createCancellation).not.toHaveBeenCalled();
+  });
+
+  it("refuses to cancel a guest order", async () => {
+    adminGraphql.mockResolvedValueOnce(orderPlacedBy(null));
+
+    const response = await cancelRequest();
+
+    expect(response.status).toBe(403);
+    expect(adminGraphql).toHaveBeenCalledTimes(1);
+  });
+
+  it("responds 404 for an order that doesn't exist", async () => {
+    adminGraphql.mockResolvedValueOnce(graphqlResponse({ order: null }));
+
+    const response = await cancelRequest("gid://shopify/Order/404");
+
+    expect(response.status).toBe(404);
+    expect(adminGraphql).toHaveBeenCalledTimes(1);
+  });
+
+  it("only requests cancellation of orders that need approval", async () => {
+    upsertSettings.mockResolvedValue({
+      ...DEFAULT_SETTINGS,
+      approvalAboveValue: 25,
+    });
+    createRequest.mockImplementation(async ({ data }) => ({
+      id: 7,
+      status: "pending",
+      ...data,
+    }));
+    adminGraphql.mockResolvedValueOnce(
+      orderPlacedBy({ id: "gid://shopify/Customer/1" }),
+    );
+
+    const response = await cancelRequest();
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      success: true,
+      status: "pending",
+      requestId: 7,
+    });
+    // The order was looked up but not cancelled
+    expect(adminGraphql).toHaveBeenCalledTimes(1);
+    expect(createRequest).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        orderId: "gid://shopify/Order/1",
+        customerId: "gid://shopify/Customer/1",
+        reason: "found_cheaper",
+      }),
+    });
+    expect(createCancellation).not.toHaveBeenCalled();
+  });
+
+  it("requests cancellation of paid orders the shop approves", async () => {
+    upsertSettings.mockResolvedValue({
+      ...DEFAULT_SETTINGS,
+      requireUncaptured: true,
+      approvalWhenPaid: true,
+    });
+    createRequest.mockImplementation(async ({ data }) => ({
+      id: 7,
+      status: "pending",
+      ...data,
+    }));
+    adminGraphql.mockResolvedValueOnce(
+      orderPlacedBy({ id: "gid://shopify/Customer/1" }),
+    );
+
+    const response = await cancelRequest();
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ status: "pending" });
+    expect(createCancellation).not.toHaveBeenCalled();
+  });
+
+  it("doesn't take new requests once one was denied", async () => {
+    upsertSettings.mockResolvedValue({
+      ...DEFAULT_SETTINGS,
+      approvalAboveValue: 25,
+    });
+    findRequest.mockResolvedValue({ id: 7, status: "denied" });
+    adminGraphql.mockResolvedValueOnce(
+      orderPlacedBy({ id: "gid://shopify/Customer/1" }),
+    );
+
+    const response = await cancelRequest();
+
+    expect(response.status).toBe(422);
+    expect(await response.json()).toMatchObject({
+      errors: [{ code: "request_denied" }],
+    });
+    expect(createRequest).not.toHaveBeenCalled();
+    expect(createCancellation).not.toHaveBeenCalled();
+  });
+
+  it("leaves the extension to poll while the job is still running", async () => {
+    vi.useFakeTimers();
+    adminGraphql
+      .mockResolvedValueOnce(orderPlacedBy({ id: "gid://shopify/Customer/1" }))
+      .mockResolvedValueOnce(orderCancelStarted())
+      .mockImplementation(async () => orderCancelJob(false, false));
+
+    const pending = cancelRequest();
+    await vi.runAllTimersAsync();
+    const response = await pending;
+    vi.useRealTimers();
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({
+      success: true,
+      status: "processing",
+      cancellationId: 1,
+    });
+    expect(cancellations.get(1)?.status).toBe("pending");
+  });
+
+  it("tells the customer and tags the order when the job fails", async () => {
+    adminGraphql
+      .mockResolvedValueOnce(orderPlacedBy({ id: "gid://shopify/Customer/1" }))
+      .mockResolvedValueOnce(orderCancelStarted())
+      .mockResolvedValueOnce(orderCancelJob(true, false))
+      .mockResolvedValueOnce(graphqlResponse({ tagsAdd: { userErrors: [] } }));
+
+    const response = await cancelRequest();
+
+    expect(response.status).toBe(502);
+    expect(cancellations.get(1)?.status).toBe("failed");
+    expect(adminGraphql.mock.calls[3][1].variables.tags).toEqual([
+      "cancellation-failed",
+    ]);
+  });
+});
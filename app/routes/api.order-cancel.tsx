@@ -1,10 +1,77 @@
 import type { ActionFunctionArgs, LoaderFunctionArgs } from "react-router";
 import { authenticate, unauthenticated } from "../shopify.server";
+import {
+  cancelCustomerOrder,
+  evaluateCancellationPolicy,
+  getAllowedRefundMethods,
+  getCancellableOrder,
+  getCancellationPolicy,
+  isOrderOwnedByCustomer,
+  requiresCancellationApproval,
+  validateCancellationReason,
+  validateRefundMethod,
+} from "../models/order-cancel.server";
+import type { CustomerCancellation } from "../models/order-cancel.server";
+import {
+  createCancellationRequest,
+  findCancellationRequest,
+} from "../models/cancellation-request.server";
+import {
+  findOrderCancellation,
+  syncOrderCancellationJob,
+  waitForOrderCancellationJob,
+} from "../models/cancellation-job.server";
 
-// The loader responds to preflight (OPTIONS) requests from the extension
+// The loader responds to preflight (OPTIONS) requests from the extension,
+// and with the refund methods the shop offers. For ?orderId=, it also has
+// the status of the customer's cancellation request and of the
+// cancellation itself, which the extension polls until its job finishes.
 export const loader = async ({ request }: LoaderFunctionArgs) => {
-  await authenticate.public.customerAccount(request);
-  return new Response(null, { status: 200 });
+  const { cors, sessionToken } = await authenticate.public.customerAccount(
+    request
+  );
+
+  const shop = sessionToken.dest.replace("https://", "");
+  const policy = await getCancellationPolicy(shop);
+
+  const orderId = new URL(request.url).searchParams.get("orderId");
+  const cancellationRequest =
+    orderId && sessionToken.sub
+      ? await findCancellationRequest(shop, orderId, sessionToken.sub)
+      : null;
+
+  let cancellation =
+    orderId && sessionToken.sub
+      ? await findOrderCancellation(shop, orderId, sessionToken.sub)
+      : null;
+  if (cancellation?.status === "pending") {
+    const { admin } = await unauthenticated.admin(shop);
+    cancellation = await syncOrderCancellationJob(admin, cancellation);
+  }
+
+  return cors(
+    new Response(
+      JSON.stringify({
+        refundMethods: getAllowedRefundMethods(policy),
+        storeCreditBonusPercent: policy.storeCreditBonusPercent,
+        request: cancellationRequest && {
+          id: cancellationRequest.id,
+          status: cancellationRequest.status,
+          decisionNote: cancellationRequest.decisionNote,
+          createdAt: cancellationRequest.createdAt,
+        },
+        cancellation: cancellation && {
+          id: cancellation.id,
+          status: cancellation.status,
+          error: cancellation.error,
+        },
+      }),
+      {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      }
+    )
+  );
 };
 
 // The action handles the POST request to cancel the order
@@ -14,9 +81,11 @@ export const action = async ({ request }: ActionFunctionArgs) => {
   );
 
   try {
-    // Parse the request body to get the orderId
+    // Parse the request body to get the orderId, the customer's reason and
+    // how they want to be refunded
     const body = await request.json();
-    const { orderId } = body;
+    const { orderId, reason } = body;
+    const note = typeof body.note === "string" ? body.note.trim() || null : null;
 
     if (!orderId) {
       return cors(
@@ -30,34 +99,135 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       );
     }
 
-    // Get admin API access using the shop from the session token
+    const reasonError = validateCancellationReason(reason, note);
+    if (reasonError) {
+      return cors(
+        new Response(JSON.stringify({ errors: [{ message: reasonError }] }), {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        })
+      );
+    }
+
     const shop = sessionToken.dest.replace("https://", "");
+    const policy = await getCancellationPolicy(shop);
+
+    // Customers without the current extension don't choose, and get the
+    // first method the shop offers
+    const refundMethod =
+      body.refundMethod ?? getAllowedRefundMethods(policy)[0];
+    const refundMethodError = validateRefundMethod(refundMethod, policy);
+    if (refundMethodError) {
+      return cors(
+        new Response(
+          JSON.stringify({ errors: [{ message: refundMethodError }] }),
+          {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+          }
+        )
+      );
+    }
+
+    // Get admin API access using the shop from the session token
     const { admin } = await unauthenticated.admin(shop);
 
-    // Call the orderCancel mutation
-    const response = await admin.graphql(
-      `#graphql
-      mutation orderCancel($orderId: ID!) {
-        orderCancel(
-          orderId: $orderId
-          reason: CUSTOMER
-          restock: true
-          refundMethod: { originalPaymentMethodsRefund: true }
-        ) {
-          job { id }
-          orderCancelUserErrors { code field message }
-        }
-      }`,
-      {
-        variables: { orderId },
+    const order = await getCancellableOrder(admin, orderId);
+    if (!order) {
+      return cors(
+        new Response(
+          JSON.stringify({ errors: [{ message: "Order not found" }] }),
+          {
+            status: 404,
+            headers: { "Content-Type": "application/json" },
+          }
+        )
+      );
+    }
+
+    // The order id comes from the request body, so make sure the logged-in
+    // customer placed it before cancelling anything
+    if (!isOrderOwnedByCustomer(order, sessionToken.sub)) {
+      return cors(
+        new Response(
+          JSON.stringify({
+            errors: [{ message: "You can only cancel your own orders" }],
+          }),
+          {
+            status: 403,
+            headers: { "Content-Type": "application/json" },
+          }
+        )
+      );
+    }
+
+    // Check the shop's cancellation policy
+    const rejection = evaluateCancellationPolicy(order, policy);
+    if (rejection) {
+      return cors(
+        new Response(JSON.stringify({ errors: [rejection] }), {
+          status: 422,
+          headers: { "Content-Type": "application/json" },
+        })
+      );
+    }
+
+    const cancellation: CustomerCancellation = {
+      shop,
+      order,
+      customerId: sessionToken.sub,
+      reason,
+      note,
+      refundMethod,
+    };
+
+    // Orders the merchant wants to approve are only requested for now
+    if (requiresCancellationApproval(order, policy)) {
+      const cancellationRequest = await createCancellationRequest(cancellation);
+      if (cancellationRequest.status === "denied") {
+        return cors(
+          new Response(
+            JSON.stringify({
+              errors: [
+                {
+                  code: "request_denied",
+                  message:
+                    "Your request to cancel this order was denied. Contact us to cancel it",
+                },
+              ],
+            }),
+            {
+              status: 422,
+              headers: { "Content-Type": "application/json" },
+            }
+          )
+        );
       }
-    );
 
-    const data = await response.json();
+      return cors(
+        new Response(
+          JSON.stringify({
+            success: true,
+            status: cancellationRequest.status,
+            requestId: cancellationRequest.id,
+          }),
+          {
+            status: 200,
+            headers: { "Content-Type": "application/json" },
+          }
+        )
+      );
+    }
+
+    // Cancel the order, leaving the customer's reason in its staff note
+    const { cancellation: started, userErrors } = await cancelCustomerOrder(
+      admin,
+      cancellation,
+      policy
+    );
 
     // Check for user errors from the mutation
-    const userErrors = data.data?.orderCancel?.orderCancelUserErrors;
-    if (userErrors && userErrors.length > 0) {
+    if (userErrors.length > 0) {
       return cors(
         new Response(JSON.stringify({ errors: userErrors }), {
           status: 400,
@@ -66,12 +236,26 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       );
     }
 
+    // orderCancel only starts a job. Wait a little for it to finish, then
+    // leave the extension to poll the loader for the outcome.
+    const result = await waitForOrderCancellationJob(admin, started!);
+    if (result.status === "failed") {
+      return cors(
+        new Response(JSON.stringify({ errors: [{ message: result.error }] }), {
+          status: 502,
+          headers: { "Content-Type": "application/json" },
+        })
+      );
+    }
+
     // Return success response
     return cors(
       new Response(
         JSON.stringify({
           success: true,
-          jobId: data.data?.orderCancel?.job?.id,
+          status: result.status === "completed" ? "cancelled" : "processing",
+          cancellationId: result.id,
+          jobId: result.jobId,
         }),
         {
           status: 200,
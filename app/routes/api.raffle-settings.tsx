@@ -0,0 +1,94 @@
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "react-router";
+import { authenticate } from "../shopify.server";
+import {
+  DEFAULT_ELIGIBILITY_RULES,
+  getRaffleSettings,
+  parseEligibilityRules,
+  parsePrizeTable,
+  updateDiscountMessage,
+  updateEligibilityRules,
+  updatePrizeTable,
+  validateDiscountMessage,
+  validateEligibilityRules,
+  validatePrizeTable,
+} from "../models/raffle.server";
+import type {
+  RaffleEligibilityRules,
+  RafflePrize,
+} from "../models/raffle.server";
+import { syncRaffleDiscountConfigurations } from "../models/raffle-campaign.server";
+
+/**
+ * The raffle settings the raffle-discount-settings admin extension edits
+ * from the discount's page. They're saved to the app's database like the
+ * app's own settings pages do, then synced into the discount metafields,
+ * so the app proxy and the discount function keep using the same table.
+ */
+interface RaffleSettingsBody {
+  prizes: RafflePrize[];
+  rules: RaffleEligibilityRules;
+  discountMessage: string | null;
+}
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+// The extension's preflight (OPTIONS) requests are answered by authenticate.admin
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { cors, session } = await authenticate.admin(request);
+  const settings = await getRaffleSettings(session.shop);
+
+  return cors(
+    json({
+      prizes: parsePrizeTable(settings.prizeTable),
+      rules: parseEligibilityRules(settings.eligibilityRules),
+      discountMessage: settings.discountMessage,
+    }),
+  );
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { admin, cors, session } = await authenticate.admin(request);
+
+  let body: RaffleSettingsBody;
+  try {
+    body = await request.json();
+  } catch {
+    return cors(json({ success: false, error: "Invalid request body" }, 400));
+  }
+
+  const prizes = Array.isArray(body.prizes) ? body.prizes : [];
+  const rules = { ...DEFAULT_ELIGIBILITY_RULES, ...body.rules };
+  const discountMessage = body.discountMessage?.trim() || null;
+
+  const validationError =
+    validatePrizeTable(prizes) ??
+    validateEligibilityRules(rules) ??
+    validateDiscountMessage(discountMessage);
+  if (validationError) {
+    return cors(json({ success: false, error: validationError }, 400));
+  }
+
+  await updatePrizeTable(session.shop, prizes);
+  await updateEligibilityRules(session.shop, rules);
+  await updateDiscountMessage(session.shop, discountMessage);
+
+  const syncError = await syncRaffleDiscountConfigurations(admin, session.shop);
+  if (syncError) {
+    return cors(
+      json(
+        {
+          success: false,
+          error: `Raffle settings saved, but the raffle discount couldn't be updated: ${syncError}`,
+        },
+        502,
+      ),
+    );
+  }
+
+  return cors(json({ success: true }));
+};
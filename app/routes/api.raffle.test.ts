@@ -0,0 +1,379 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { action, loader } from "./api.raffle";
+
+const { adminGraphql, consumeRateLimit, draws, leads, settings } = vi.hoisted(
+  () => ({
+    adminGraphql: vi.fn(),
+    consumeRateLimit: vi.fn(),
+    draws: [] as Record<string, unknown>[],
+    leads: [] as Record<string, unknown>[],
+    settings: {} as Record<string, unknown>,
+  }),
+);
+
+const SHOP = "example.myshopify.com";
+
+const DEFAULT_SETTINGS = {
+  shop: SHOP,
+  signingSecret: "test-signing-secret",
+  prizeTable: JSON.stringify([
+    { id: "percentage-10", type: "percentage", value: 10, weight: 1 },
+  ]),
+  eligibilityRules: null,
+  dailyWinCap: null,
+  requireLogin: false,
+  requireEmail: false,
+  requireConsent: false,
+  fulfillment: "attribute",
+  codesCleanedAt: null,
+  discountMessage: null,
+};
+
+type Where = Record<string, unknown> & { OR?: Record<string, unknown>[] };
+
+function matches(draw: Record<string, unknown>, where: Where) {
+  const { OR, ...fields } = where;
+  return (
+    Object.entries(fields).every(([key, value]) => draw[key] === value) &&
+    (!OR ||
+      OR.some((clause) =>
+        Object.entries(clause).every(([key, value]) => draw[key] === value),
+      ))
+  );
+}
+
+vi.mock("../shopify.server", () => ({
+  authenticate: {
+    public: {
+      appProxy: vi.fn(async () => ({ admin: { graphql: adminGraphql } })),
+    },
+  },
+}));
+
+vi.mock("../models/rate-limit.server", () => ({ consumeRateLimit }));
+
+vi.mock("../db.server", () => ({
+  default: {
+    raffleCampaign: {
+      findFirst: vi.fn(async () => ({
+        id: 1,
+        shop: SHOP,
+        status: "active",
+        timezoneOffsetMinutes: 0,
+      })),
+    },
+    raffleSettings: {
+      upsert: vi.fn(async () => settings),
+      updateMany: vi.fn(async () => ({ count: 0 })),
+    },
+    raffleDraw: {
+      findFirst: vi.fn(
+        async ({ where }: { where: Where }) =>
+          draws.find((draw) => matches(draw, where)) ?? null,
+      ),
+      count: vi.fn(
+        async () =>
+          draws.filter((draw) => draw.prizeType !== "none").length,
+      ),
+      create: vi.fn(async ({ data }: { data: Record<string, unknown> }) => {
+        const draw = { id: draws.length + 1, createdAt: new Date(), ...data };
+        draws.push(draw);
+        return draw;
+      }),
+      update: vi.fn(
+        async ({
+          where,
+          data,
+        }: {
+          where: { id: number };
+          data: Record<string, unknown>;
+        }) => Object.assign(draws.find((draw) => draw.id === where.id)!, data),
+      ),
+    },
+    raffleLead: {
+      upsert: vi.fn(async ({ create }: { create: Record<string, unknown> }) => {
+        leads.push(create);
+        return create;
+      }),
+    },
+  },
+}));
+
+function graphqlResponse(data: unknown) {
+  return new Response(JSON.stringify({ data }));
+}
+
+/**
+ * Answers the Admin API calls the route makes, by the mutation or query
+ * they run
+ */
+async function answerGraphql(query: string) {
+  if (query.includes("customers(")) {
+    return graphqlResponse({ customers: { nodes: [] } });
+  }
+  if (query.includes("customerCreate(")) {
+    return graphqlResponse({
+      customerCreate: {
+        customer: { id: "gid://shopify/Customer/5" },
+        userErrors: [],
+      },
+    });
+  }
+  if (query.includes("discountCodeBasicCreate(")) {
+    return graphqlResponse({
+      discountCodeBasicCreate: {
+        codeDiscountNode: { id: "gid://shopify/DiscountCodeNode/1" },
+        userErrors: [],
+      },
+    });
+  }
+  return graphqlResponse({ metafieldsSet: { userErrors: [] } });
+}
+
+function graphqlCalls(operation: string) {
+  return adminGraphql.mock.calls.filter(([query]) =>
+    (query as string).includes(operation),
+  );
+}
+
+function raffleRequest(
+  params: Record<string, string> = {},
+  headers: Record<string, string> = { "X-Forwarded-For": "203.0.113.7" },
+) {
+  const search = new URLSearchParams({
+    shop: SHOP,
+    cart_token: "cart-1",
+    ...params,
+  });
+  return loader({
+    request: new Request(`https://app.example.com/api/raffle?${search}`, {
+      headers,
+    }),
+    params: {},
+    context: {},
+    unstable_pattern: "/api/raffle",
+  });
+}
+
+function enterRaffle(email: string, marketingConsent = false) {
+  const search = new URLSearchParams({ shop: SHOP, cart_token: "cart-1" });
+  return action({
+    request: new Request(`https://app.example.com/api/raffle?${search}`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-Forwarded-For": "203.0.113.7",
+      },
+      body: JSON.stringify({ email, marketing_consent: marketingConsent }),
+    }),
+    params: {},
+    context: {},
+    unstable_pattern: "/api/raffle",
+  });
+}
+
+describe("api.raffle", () => {
+  beforeEach(() => {
+    draws.length = 0;
+    leads.length = 0;
+    Object.assign(settings, DEFAULT_SETTINGS);
+    consumeRateLimit.mockReset();
+    consumeRateLimit.mockResolvedValue({ allowed: true, retryAfter: 1 });
+    adminGraphql.mockReset();
+    adminGraphql.mockImplementation(answerGraphql);
+  });
+
+  it("draws a prize and signs a token for it", async () => {
+    const response = await raffleRequest();
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({
+      prize: { type: "percentage", value: 10 },
+      token: expect.any(String),
+      code: null,
+      expiresAt: expect.any(String),
+    });
+    expect(draws).toHaveLength(1);
+  });
+
+  it("gives logged-in customers one play across carts", async () => {
+    const first = await raffleRequest({ logged_in_customer_id: "1" });
+    const second = await raffleRequest(
+      { cart_token: "cart-2", logged_in_customer_id: "1" },
+      { "X-Forwarded-For": "198.51.100.2" },
+    );
+
+    expect((await second.json()).token).toBe((await first.json()).token);
+    expect(draws).toHaveLength(1);
+    expect(graphqlCalls("metafieldsSet(")).toHaveLength(1);
+  });
+
+  it("never draws on lookup", async () => {
+    const response = await raffleRequest({ lookup: "1" });
+
+    expect(await response.json()).toEqual({
+      prize: null,
+      token: null,
+      code: null,
+    });
+    expect(draws).toHaveLength(0);
+  });
+
+  it("restores the shopper's prize on lookup", async () => {
+    const { token } = await (await raffleRequest()).json();
+
+    const response = await raffleRequest({ lookup: "1" });
+
+    expect(await response.json()).toMatchObject({
+      prize: { type: "percentage", value: 10 },
+      token,
+    });
+    expect(draws).toHaveLength(1);
+  });
+
+  it("only lets logged-in customers play in login-only mode", async () => {
+    settings.requireLogin = true;
+
+    const guest = await raffleRequest();
+    expect(guest.status).toBe(401);
+    expect(await guest.json()).toMatchObject({ code: "login_required" });
+    expect(draws).toHaveLength(0);
+
+    const customer = await raffleRequest({ logged_in_customer_id: "1" });
+    expect(customer.status).toBe(200);
+  });
+
+  it("doesn't replace an expired prize", async () => {
+    draws.push({
+      id: 1,
+      shop: SHOP,
+      campaignId: 1,
+      cartToken: "cart-1",
+      customerId: null,
+      clientIp: "203.0.113.7",
+      prizeId: "percentage-10",
+      prizeType: "percentage",
+      prizeValue: 10,
+      createdAt: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000),
+    });
+
+    const response = await raffleRequest();
+    expect(response.status).toBe(410);
+    expect(await response.json()).toMatchObject({ code: "prize_expired" });
+
+    const lookup = await raffleRequest({ lookup: "1" });
+    expect(await lookup.json()).toMatchObject({ prize: null });
+    expect(draws).toHaveLength(1);
+  });
+
+  it("hands out the same discount code in code mode", async () => {
+    settings.fulfillment = "code";
+
+    const first = await (await raffleRequest()).json();
+    const second = await (await raffleRequest()).json();
+
+    expect(first).toMatchObject({ token: null, code: expect.any(String) });
+    expect(second.code).toBe(first.code);
+    expect(graphqlCalls("discountCodeBasicCreate(")).toHaveLength(1);
+  });
+
+  it("asks new shoppers for their email when the shop requires one", async () => {
+    settings.requireEmail = true;
+
+    const response = await raffleRequest();
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ code: "email_required" });
+    expect(draws).toHaveLength(0);
+  });
+
+  it("draws once shoppers enter with their email", async () => {
+    settings.requireEmail = true;
+
+    const response = await enterRaffle("Jane@Example.com ", true);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({
+      prize: { type: "percentage", value: 10 },
+    });
+    expect(leads).toEqual([
+      expect.objectContaining({
+        email: "jane@example.com",
+        customerId: "5",
+        marketingConsent: true,
+      }),
+    ]);
+
+    // The shopper's prize comes back without entering again
+    expect((await raffleRequest()).status).toBe(200);
+    expect(draws).toHaveLength(1);
+  });
+
+  it("rejects entries with an invalid email", async () => {
+    settings.requireEmail = true;
+
+    const response = await enterRaffle("not-an-email");
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ code: "invalid_email" });
+    expect(leads).toHaveLength(0);
+  });
+
+  it("limits clients by the IP Shopify forwarded", async () => {
+    await raffleRequest(
+      {},
+      { "X-Forwarded-For": "198.51.100.1, 203.0.113.7" },
+    );
+
+    expect(consumeRateLimit).toHaveBeenCalledWith(
+      `ip:${SHOP}:203.0.113.7`,
+      expect.anything(),
+    );
+  });
+
+  it("limits clients without a forwarded IP across the shop", async () => {
+    await raffleRequest({}, {});
+
+    expect(consumeRateLimit).toHaveBeenCalledWith(
+      `shop:${SHOP}`,
+      expect.anything(),
+    );
+  });
+
+  it("asks rate limited clients to come back later", async () => {
+    consumeRateLimit.mockResolvedValue({ allowed: false, retryAfter: 42 });
+
+    const response = await raffleRequest();
+
+    expect(response.status).toBe(429);
+    expect(response.headers.get("Retry-After")).toBe("42");
+    expect(await response.json()).toMatchObject({ code: "rate_limited" });
+    expect(draws).toHaveLength(0);
+  });
+
+  it("doesn't draw once the daily win cap is reached", async () => {
+    settings.dailyWinCap = 1;
+    await raffleRequest();
+
+    const response = await raffleRequest(
+      { cart_token: "cart-2" },
+      { "X-Forwarded-For": "198.51.100.2" },
+    );
+
+    expect(response.status).toBe(429);
+    expect(await response.json()).toMatchObject({ code: "daily_win_cap" });
+    expect(draws).toHaveLength(1);
+  });
+
+  it("gives shoppers who already played their prize back past the cap", async () => {
+    settings.dailyWinCap = 1;
+    await raffleRequest();
+
+    const response = await raffleRequest();
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({
+      prize: { type: "percentage", value: 10 },
+    });
+  });
+});
@@ -1,30 +1,374 @@
-import type { LoaderFunctionArgs } from "react-router";
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "react-router";
 import { authenticate } from "../shopify.server";
+import {
+  findOrCreateRaffleDraw,
+  findRaffleDraw,
+  getRaffleDrawExpiry,
+  getRaffleGame,
+  getRaffleSettings,
+  isDailyWinCapReached,
+  issueRaffleToken,
+  parsePrizeTable,
+} from "../models/raffle.server";
+import { getActiveRaffleCampaign } from "../models/raffle-campaign.server";
+import {
+  getOrCreateRaffleDrawCode,
+  scheduleRaffleCodeCleanup,
+} from "../models/raffle-code.server";
+import { setCustomerRafflePrize } from "../models/raffle-customer.server";
+import {
+  isValidEmail,
+  saveRaffleLead,
+  upsertRaffleCustomer,
+} from "../models/raffle-lead.server";
+import { getRaffleProxyMessages } from "../models/raffle-messages.server";
+import type { RaffleProxyMessages } from "../models/raffle-messages.server";
+import { consumeRateLimit } from "../models/rate-limit.server";
+import type { RateLimit } from "../models/rate-limit.server";
+
+// Requests allowed per client IP and per logged-in customer. A shopper
+// only needs a handful, so anything beyond this is most likely a bot.
+const IP_RATE_LIMIT: RateLimit = { limit: 30, windowSeconds: 10 * 60 };
+const CUSTOMER_RATE_LIMIT: RateLimit = { limit: 10, windowSeconds: 10 * 60 };
+// Requests allowed per shop from clients whose IP is unknown
+const SHOP_RATE_LIMIT: RateLimit = { limit: 300, windowSeconds: 10 * 60 };
+
+// Proxies that append the address they got the request from to
+// X-Forwarded-For, counting Shopify's app proxy. Set TRUSTED_PROXY_COUNT
+// when the app also runs behind a load balancer of its own.
+const TRUSTED_PROXY_COUNT = Number(process.env.TRUSTED_PROXY_COUNT) || 1;
+
+interface RaffleEntry {
+  email: string;
+  marketingConsent: boolean;
+}
+
+function json(
+  body: unknown,
+  status = 200,
+  headers: Record<string, string> = {},
+) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      "Content-Type": "application/json",
+      ...headers,
+    },
+  });
+}
+
+/**
+ * The client's IP, as appended to X-Forwarded-For by Shopify's app proxy.
+ * Entries before it are sent by the client and can't be trusted.
+ */
+function getClientIp(request: Request): string | null {
+  const forwardedFor = (request.headers.get("X-Forwarded-For") ?? "")
+    .split(",")
+    .map((address) => address.trim())
+    .filter(Boolean);
+  return forwardedFor[forwardedFor.length - TRUSTED_PROXY_COUNT] ?? null;
+}
+
+/**
+ * A structured 429 that raffle.js shows as a "come back later" state.
+ */
+function tooManyRequests(
+  messages: RaffleProxyMessages,
+  code: "rate_limited" | "daily_win_cap",
+  retryAfter: number,
+) {
+  return json(
+    {
+      error:
+        code === "rate_limited" ? messages.rateLimited : messages.dailyWinCap,
+      code,
+      retryAfter,
+    },
+    429,
+    { "Retry-After": String(retryAfter) },
+  );
+}
 
 /**
  * Raffle Discount API - App Proxy Endpoint
- * 
+ *
  * This endpoint is called from the storefront via the app proxy.
  * It authenticates the request to ensure it's coming from Shopify,
- * then generates a random discount between 5-10%.
+ * then returns the prize drawn for the shopper's cart (or logged-in
+ * customer, or IP) in the running campaign, drawing a new one from the shop's
+ * prize table only on their first play. Winning prizes come with a
+ * signed token that the discount function verifies, so the cart attribute
+ * can't simply be set by hand. The recorded draws are also the plays
+ * counted in the raffle analytics.
+ *
+ * Requests are rate limited per IP and per customer, and shops can cap
+ * how many winning draws they give out per day.
+ *
+ * Shops can require shoppers to log in to play. Prizes won by logged-in
+ * customers are also saved to a customer metafield, and raffle.js passes
+ * `lookup=1` on later visits to restore a prize without drawing a new one.
+ *
+ * Shops can also require an email to play. Shoppers then enter by POSTing
+ * their email and marketing consent, see the action below.
+ *
+ * In code mode, winning draws get a single-use discount code instead of a
+ * token, which raffle.js shows and applies through `/discount/CODE`.
+ * Expired codes that were never used are cleaned up in the background.
+ *
+ * Winning prizes expire at midnight in the shop's timezone, a day after
+ * the draw. Shoppers whose prize expired can't play again in the same
+ * campaign.
+ *
+ * Error messages are in the storefront's language, see
+ * getRaffleProxyMessages.
+ *
+ * The response also carries the prize table's segments for the modal's
+ * wheel, scratch card and mystery box games, which land on the drawn one.
  */
-export const loader = async ({ request }: LoaderFunctionArgs) => {
+async function handleRaffleRequest(
+  request: Request,
+  entry: RaffleEntry | null,
+) {
   // Authenticate the app proxy request
   // This validates that the request is coming from Shopify's storefront
-  await authenticate.public.appProxy(request);
+  const { admin } = await authenticate.public.appProxy(request);
+  const messages = getRaffleProxyMessages(request);
 
-  // Generate a random discount between 5 and 10 (inclusive)
-  const discount = Math.floor(Math.random() * 6) + 5;
+  // The shop and customer parameters are part of the signed proxy query,
+  // the cart token is sent along by raffle.js
+  const url = new URL(request.url);
+  const shop = url.searchParams.get("shop");
+  const loggedInCustomerId =
+    url.searchParams.get("logged_in_customer_id") || null;
+  const cartToken = url.searchParams.get("cart_token");
+  const lookup = url.searchParams.get("lookup") === "1";
 
-  // Return JSON response
-  return new Response(
-    JSON.stringify({ discount }),
-    {
-      status: 200,
-      headers: {
-        "Content-Type": "application/json",
+  if (!shop || !cartToken) {
+    return json({ error: messages.cartTokenRequired }, 400);
+  }
+
+  const rateLimits: [string, RateLimit][] = [];
+  const ip = getClientIp(request);
+  if (ip) {
+    rateLimits.push([`ip:${shop}:${ip}`, IP_RATE_LIMIT]);
+  } else {
+    rateLimits.push([`shop:${shop}`, SHOP_RATE_LIMIT]);
+  }
+  if (loggedInCustomerId) {
+    rateLimits.push([
+      `customer:${shop}:${loggedInCustomerId}`,
+      CUSTOMER_RATE_LIMIT,
+    ]);
+  }
+
+  for (const [key, rateLimit] of rateLimits) {
+    const { allowed, retryAfter } = await consumeRateLimit(key, rateLimit);
+    if (!allowed) {
+      return tooManyRequests(messages, "rate_limited", retryAfter);
+    }
+  }
+
+  // Draws are only made while a campaign is running
+  const campaign = await getActiveRaffleCampaign(shop);
+
+  if (!campaign) {
+    return json({ error: messages.noActiveCampaign }, 403);
+  }
+
+  const settings = await getRaffleSettings(shop);
+
+  if (settings.requireLogin && !loggedInCustomerId) {
+    return json({ error: messages.loginRequired, code: "login_required" }, 401);
+  }
+
+  if (entry) {
+    if (!isValidEmail(entry.email)) {
+      return json({ error: messages.invalidEmail, code: "invalid_email" }, 400);
+    }
+    if (settings.requireConsent && !entry.marketingConsent) {
+      return json(
+        {
+          error: messages.consentRequired,
+          code: "consent_required",
+        },
+        400,
+      );
+    }
+    if (!admin) {
+      return json({ error: messages.unavailable }, 503);
+    }
+
+    const { customerId: entryCustomerId, error } = await upsertRaffleCustomer(
+      admin,
+      entry.email,
+      entry.marketingConsent,
+      loggedInCustomerId,
+    );
+    if (error || !entryCustomerId) {
+      return json({ error: messages.emailNotSaved }, 502);
+    }
+
+    await saveRaffleLead({
+      shop,
+      email: entry.email,
+      customerId: entryCustomerId,
+      campaignId: campaign.id,
+      marketingConsent: entry.marketingConsent,
+    });
+  }
+
+  // Logged-in customers and clients get one play per campaign, whichever
+  // cart they play with. Anyone can type an email, so entries by email are
+  // never matched by it and don't get another shopper's prize back.
+  const identity = {
+    shop,
+    campaignId: campaign.id,
+    cartToken,
+    customerId: loggedInCustomerId,
+    clientIp: ip,
+  };
+  const existingDraw = await findRaffleDraw(identity);
+
+  const existingDrawExpired =
+    existingDraw !== null &&
+    getRaffleDrawExpiry(existingDraw, campaign.timezoneOffsetMinutes) <=
+      new Date();
+
+  if (lookup && (!existingDraw || existingDrawExpired)) {
+    return json({ prize: null, token: null, code: null });
+  }
+
+  // A draw is one play per campaign, so a lapsed prize isn't replaced
+  if (existingDrawExpired) {
+    return json({ error: messages.prizeExpired, code: "prize_expired" }, 410);
+  }
+
+  // Shoppers who already played get their prize back, new ones have to
+  // enter with their email first
+  if (settings.requireEmail && !entry && !existingDraw) {
+    return json(
+      {
+        error: messages.emailRequired,
+        code: "email_required",
+        consentRequired: settings.requireConsent,
       },
+      400,
+    );
+  }
+
+  // Shoppers who already played keep their prize once the cap is reached,
+  // only new draws have to wait for tomorrow
+  if (
+    !existingDraw &&
+    (await isDailyWinCapReached(shop, settings.dailyWinCap))
+  ) {
+    const now = new Date();
+    const tomorrow = Date.UTC(
+      now.getUTCFullYear(),
+      now.getUTCMonth(),
+      now.getUTCDate() + 1,
+    );
+    return tooManyRequests(
+      messages,
+      "daily_win_cap",
+      Math.ceil((tomorrow - now.getTime()) / 1000),
+    );
+  }
+
+  const prizes = parsePrizeTable(settings.prizeTable);
+  const draw = await findOrCreateRaffleDraw(identity, prizes);
+
+  const prize = { type: draw.prizeType, value: draw.prizeValue };
+  const expiresAt = getRaffleDrawExpiry(
+    draw,
+    campaign.timezoneOffsetMinutes,
+  ).toISOString();
+  const isWin = draw.prizeType !== "none";
+  const useCode = settings.fulfillment === "code";
+  let token: string | null = null;
+  let code: string | null = null;
+
+  if (isWin && useCode) {
+    if (!admin) {
+      return json({ error: messages.unavailable }, 503);
     }
-  );
+
+    const result = await getOrCreateRaffleDrawCode(
+      admin,
+      draw,
+      settings,
+      campaign.timezoneOffsetMinutes,
+    );
+    if (result.error || !result.code) {
+      console.error(
+        `Couldn't create a raffle code for draw ${draw.id}: ${result.error}`,
+      );
+      return json({ error: messages.codeNotCreated }, 502);
+    }
+    code = result.code;
+  } else if (isWin) {
+    token = issueRaffleToken(
+      draw,
+      settings,
+      campaign.timezoneOffsetMinutes,
+      loggedInCustomerId,
+    );
+  }
+
+  if (useCode && admin) {
+    await scheduleRaffleCodeCleanup(admin, shop);
+  }
+
+  if (!existingDraw && loggedInCustomerId && isWin && admin) {
+    const error = await setCustomerRafflePrize(admin, loggedInCustomerId, {
+      campaignId: draw.campaignId,
+      prize: { id: draw.prizeId, type: draw.prizeType, value: draw.prizeValue },
+      token,
+      code,
+      expiresAt,
+    });
+    if (error) {
+      console.error(
+        `Couldn't save the raffle prize of customer ${loggedInCustomerId}: ${error}`,
+      );
+    }
+  }
+
+  return json({
+    prize,
+    token,
+    code,
+    expiresAt: isWin ? expiresAt : null,
+    game: getRaffleGame(prizes, draw),
+  });
+}
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  return handleRaffleRequest(request, null);
 };
 
+/**
+ * Enters the raffle with an email, creating or updating the customer and
+ * their email marketing consent before drawing.
+ */
+export const action = async ({ request }: ActionFunctionArgs) => {
+  if (request.method !== "POST") {
+    return json(
+      { error: getRaffleProxyMessages(request).methodNotAllowed },
+      405,
+    );
+  }
+
+  let body: { email?: unknown; marketing_consent?: unknown };
+  try {
+    body = await request.clone().json();
+  } catch {
+    return json({ error: getRaffleProxyMessages(request).invalidBody }, 400);
+  }
+
+  return handleRaffleRequest(request, {
+    email:
+      typeof body.email === "string" ? body.email.trim().toLowerCase() : "",
+    marketingConsent: body.marketing_consent === true,
+  });
+};
@@ -0,0 +1,378 @@
+import { useEffect, useState } from "react";
+import type {
+  ActionFunctionArgs,
+  HeadersFunction,
+  LoaderFunctionArgs,
+} from "react-router";
+import { useFetcher, useLoaderData } from "react-router";
+import { useAppBridge } from "@shopify/app-bridge-react";
+import { authenticate } from "../shopify.server";
+import { boundary } from "@shopify/shopify-app-react-router/server";
+import {
+  getCancellationPolicy,
+  updateCancellationPolicy,
+  validateCancellationPolicy,
+} from "../models/order-cancel.server";
+import type { CancellationPolicy } from "../models/order-cancel.server";
+import { getShopLocations } from "../models/cancellation-refund.server";
+import {
+  CANCELLATION_FAILED_TAG,
+  getFailedOrderCancellations,
+} from "../models/cancellation-job.server";
+
+// Failed cancellations are listed for this many days
+const FAILED_CANCELLATIONS_DAYS = 30;
+
+interface ActionResponse {
+  success: boolean;
+  message?: string;
+  error?: string;
+}
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { admin, session } = await authenticate.admin(request);
+  const policy = await getCancellationPolicy(session.shop);
+
+  const shopResponse = await admin.graphql(
+    `#graphql
+    query GetShopCurrency {
+      shop {
+        currencyCode
+      }
+    }`
+  );
+  const shopJson = await shopResponse.json();
+
+  const failedCancellations = await getFailedOrderCancellations(
+    session.shop,
+    FAILED_CANCELLATIONS_DAYS,
+  );
+
+  return {
+    policy,
+    locations: await getShopLocations(admin),
+    failedCancellationTag: CANCELLATION_FAILED_TAG,
+    failedCancellations: failedCancellations.map((cancellation) => ({
+      id: cancellation.id,
+      orderId: cancellation.orderId,
+      createdAt: cancellation.createdAt.toISOString(),
+    })),
+    currencyCode: (shopJson.data?.shop?.currencyCode as string) ?? "",
+  };
+};
+
+export const action = async ({
+  request,
+}: ActionFunctionArgs): Promise<ActionResponse> => {
+  const { session } = await authenticate.admin(request);
+  const formData = await request.formData();
+
+  const windowMinutes = formData.get("windowMinutes") as string;
+  const maxOrderValue = formData.get("maxOrderValue") as string;
+  const approvalAboveValue = formData.get("approvalAboveValue") as string;
+  const storeCreditBonusPercent = formData.get(
+    "storeCreditBonusPercent",
+  ) as string;
+  const policy: CancellationPolicy = {
+    windowMinutes: windowMinutes ? Number(windowMinutes) : null,
+    requireUnfulfilled: formData.get("requireUnfulfilled") === "true",
+    requireUncaptured: formData.get("requireUncaptured") === "true",
+    excludedProductTags: ((formData.get("excludedProductTags") as string) || "")
+      .split(",")
+      .map((tag) => tag.trim())
+      .filter(Boolean),
+    maxOrderValue: maxOrderValue ? Number(maxOrderValue) : null,
+    approvalAboveValue: approvalAboveValue ? Number(approvalAboveValue) : null,
+    approvalWhenPaid: formData.get("approvalWhenPaid") === "true",
+    refundToOriginalPayment:
+      formData.get("refundToOriginalPayment") === "true",
+    refundToStoreCredit: formData.get("refundToStoreCredit") === "true",
+    storeCreditBonusPercent: storeCreditBonusPercent
+      ? Number(storeCreditBonusPercent)
+      : null,
+    excludedRestockLocationIds: (
+      (formData.get("excludedRestockLocationIds") as string) || ""
+    )
+      .split(",")
+      .filter(Boolean),
+  };
+
+  const validationError = validateCancellationPolicy(policy);
+  if (validationError) {
+    return { success: false, error: validationError };
+  }
+
+  await updateCancellationPolicy(session.shop, policy);
+
+  return { success: true, message: "Cancellation policy saved" };
+};
+
+/**
+ * The order's page in the Shopify admin, from its gid://shopify/Order/<id> id.
+ */
+function getOrderUrl(orderId: string) {
+  return `shopify://admin/orders/${orderId.split("/").pop()}`;
+}
+
+export default function Cancellations() {
+  const {
+    policy,
+    locations,
+    failedCancellationTag,
+    failedCancellations,
+    currencyCode,
+  } = useLoaderData<typeof loader>();
+  const fetcher = useFetcher<typeof action>();
+  const shopify = useAppBridge();
+
+  const [windowMinutes, setWindowMinutes] = useState(
+    policy.windowMinutes !== null ? String(policy.windowMinutes) : "",
+  );
+  const [requireUnfulfilled, setRequireUnfulfilled] = useState(
+    policy.requireUnfulfilled,
+  );
+  const [requireUncaptured, setRequireUncaptured] = useState(
+    policy.requireUncaptured,
+  );
+  const [excludedProductTags, setExcludedProductTags] = useState(
+    policy.excludedProductTags.join(", "),
+  );
+  const [maxOrderValue, setMaxOrderValue] = useState(
+    policy.maxOrderValue !== null ? String(policy.maxOrderValue) : "",
+  );
+  const [approvalAboveValue, setApprovalAboveValue] = useState(
+    policy.approvalAboveValue !== null ? String(policy.approvalAboveValue) : "",
+  );
+  const [approvalWhenPaid, setApprovalWhenPaid] = useState(
+    policy.approvalWhenPaid,
+  );
+  const [refundToOriginalPayment, setRefundToOriginalPayment] = useState(
+    policy.refundToOriginalPayment,
+  );
+  const [refundToStoreCredit, setRefundToStoreCredit] = useState(
+    policy.refundToStoreCredit,
+  );
+  const [storeCreditBonusPercent, setStoreCreditBonusPercent] = useState(
+    policy.storeCreditBonusPercent !== null
+      ? String(policy.storeCreditBonusPercent)
+      : "",
+  );
+  const [excludedRestockLocationIds, setExcludedRestockLocationIds] =
+    useState(policy.excludedRestockLocationIds);
+
+  const isSaving = fetcher.state !== "idle";
+
+  useEffect(() => {
+    if (fetcher.data?.success) {
+      shopify.toast.show(fetcher.data.message || "Saved");
+    } else if (fetcher.data?.error) {
+      shopify.toast.show(fetcher.data.error, { isError: true });
+    }
+  }, [fetcher.data, shopify]);
+
+  const handleSave = () => {
+    fetcher.submit(
+      {
+        windowMinutes,
+        requireUnfulfilled: String(requireUnfulfilled),
+        requireUncaptured: String(requireUncaptured),
+        excludedProductTags,
+        maxOrderValue,
+        approvalAboveValue,
+        approvalWhenPaid: String(approvalWhenPaid),
+        refundToOriginalPayment: String(refundToOriginalPayment),
+        refundToStoreCredit: String(refundToStoreCredit),
+        storeCreditBonusPercent: refundToStoreCredit
+          ? storeCreditBonusPercent
+          : "",
+        excludedRestockLocationIds: excludedRestockLocationIds.join(","),
+      },
+      { method: "POST" },
+    );
+  };
+
+  const setRestocked = (locationId: string, restocked: boolean) => {
+    setExcludedRestockLocationIds((current) =>
+      restocked
+        ? current.filter((id) => id !== locationId)
+        : [...current, locationId],
+    );
+  };
+
+  return (
+    <s-page heading="Order cancellations">
+      <s-button
+        slot="primary-action"
+        variant="primary"
+        onClick={handleSave}
+        {...(isSaving ? { loading: true } : {})}
+      >
+        Save
+      </s-button>
+      <s-button slot="secondary-actions" href="/app/cancellations/reasons">
+        Cancellation reasons
+      </s-button>
+
+      {failedCancellations.length > 0 && (
+        <s-banner tone="critical" heading="Some cancellations failed">
+          <s-paragraph>
+            Shopify couldn&apos;t cancel these orders after their customers
+            asked to, so they&apos;re still open. They&apos;re tagged{" "}
+            {failedCancellationTag}.
+          </s-paragraph>
+          <s-unordered-list>
+            {failedCancellations.map((cancellation) => (
+              <s-list-item key={cancellation.id}>
+                <s-link href={getOrderUrl(cancellation.orderId)}>
+                  {`Order ${cancellation.orderId.split("/").pop()}`}
+                </s-link>
+                {`, ${new Date(cancellation.createdAt).toLocaleString()}`}
+              </s-list-item>
+            ))}
+          </s-unordered-list>
+        </s-banner>
+      )}
+
+      <s-section heading="Cancellation window">
+        <s-number-field
+          label="Minutes after the order is placed"
+          details="Leave empty to let customers cancel at any time."
+          value={windowMinutes}
+          min={1}
+          step={1}
+          onChange={(e) => setWindowMinutes(e.currentTarget.value)}
+        />
+      </s-section>
+
+      <s-section heading="Order status">
+        <s-stack direction="block" gap="base">
+          <s-checkbox
+            label="Only unfulfilled orders"
+            details="Orders that are partly or fully fulfilled can't be cancelled."
+            checked={requireUnfulfilled}
+            onChange={(e) => setRequireUnfulfilled(e.currentTarget.checked)}
+          />
+          <s-checkbox
+            label="Only orders whose payment wasn't captured"
+            details="Orders that are paid or partly paid can't be cancelled."
+            checked={requireUncaptured}
+            onChange={(e) => setRequireUncaptured(e.currentTarget.checked)}
+          />
+        </s-stack>
+      </s-section>
+
+      <s-section heading="Products and order value">
+        <s-stack direction="block" gap="base">
+          <s-text-field
+            label="Excluded product tags"
+            details="Comma separated. Orders with a product tagged with one of these can't be cancelled."
+            value={excludedProductTags}
+            onInput={(e) => setExcludedProductTags(e.currentTarget.value)}
+            placeholder="final-sale, custom"
+          />
+          <s-number-field
+            label="Maximum order value"
+            details="Leave empty for no maximum."
+            value={maxOrderValue}
+            min={0}
+            step={0.01}
+            suffix={currencyCode}
+            onChange={(e) => setMaxOrderValue(e.currentTarget.value)}
+          />
+        </s-stack>
+      </s-section>
+
+      <s-section heading="Approval">
+        <s-stack direction="block" gap="base">
+          <s-number-field
+            label="Approve orders above"
+            details="Customers can only request to cancel orders above this value, for you to approve on the order's page. Leave empty to never ask."
+            value={approvalAboveValue}
+            min={0}
+            step={0.01}
+            suffix={currencyCode}
+            onChange={(e) => setApprovalAboveValue(e.currentTarget.value)}
+          />
+          <s-checkbox
+            label="Approve paid orders"
+            details="Customers can only request to cancel orders that are paid or partly paid, even when only orders whose payment wasn't captured can be cancelled."
+            checked={approvalWhenPaid}
+            onChange={(e) => setApprovalWhenPaid(e.currentTarget.checked)}
+          />
+        </s-stack>
+      </s-section>
+
+      <s-section heading="Refunds">
+        <s-stack direction="block" gap="base">
+          <s-paragraph>
+            Customers choose how they&apos;re refunded from the methods you
+            offer.
+          </s-paragraph>
+          <s-checkbox
+            label="Original payment method"
+            checked={refundToOriginalPayment}
+            onChange={(e) =>
+              setRefundToOriginalPayment(e.currentTarget.checked)
+            }
+          />
+          <s-checkbox
+            label="Store credit"
+            details="Refunded to the customer's store credit account."
+            checked={refundToStoreCredit}
+            onChange={(e) => setRefundToStoreCredit(e.currentTarget.checked)}
+          />
+          {refundToStoreCredit && (
+            <s-number-field
+              label="Store credit bonus"
+              details="Extra store credit for customers who choose it, as a percentage of what they paid. Leave empty for no bonus."
+              value={storeCreditBonusPercent}
+              min={0}
+              max={100}
+              step={1}
+              suffix="%"
+              onChange={(e) =>
+                setStoreCreditBonusPercent(e.currentTarget.value)
+              }
+            />
+          )}
+        </s-stack>
+      </s-section>
+
+      <s-section heading="Restocking">
+        <s-stack direction="block" gap="base">
+          <s-paragraph>
+            Items from cancelled orders are put back in stock at the location
+            they would have shipped from.
+          </s-paragraph>
+          {locations.map((location) => (
+            <s-checkbox
+              key={location.id}
+              label={`Restock at ${location.name}`}
+              checked={!excludedRestockLocationIds.includes(location.id)}
+              onChange={(e) =>
+                setRestocked(location.id, e.currentTarget.checked)
+              }
+            />
+          ))}
+        </s-stack>
+      </s-section>
+
+      <s-section slot="aside" heading="About cancellations">
+        <s-paragraph>
+          Customers can cancel their orders from their account. Each request
+          is checked against these rules before the order is cancelled, and
+          customers are told why when their order can&apos;t be.
+        </s-paragraph>
+        <s-paragraph>
+          Orders that need your approval show the customer&apos;s request on
+          the order&apos;s page, where you can approve or deny it. Customers
+          see your decision on their order&apos;s status page.
+        </s-paragraph>
+      </s-section>
+    </s-page>
+  );
+}
+
+export const headers: HeadersFunction = (headersArgs) => {
+  return boundary.headers(headersArgs);
+};
@@ -0,0 +1,183 @@
+import type { HeadersFunction, LoaderFunctionArgs } from "react-router";
+import { useLoaderData, useSearchParams } from "react-router";
+import { authenticate } from "../shopify.server";
+import { boundary } from "@shopify/shopify-app-react-router/server";
+import {
+  CANCELLATION_REASONS,
+  CANCELLATION_REASON_LABELS,
+  getCancellationReport,
+} from "../models/order-cancel.server";
+
+const RANGES = [7, 30, 90];
+const DEFAULT_RANGE = 30;
+
+// Customer notes shown below the report, newest first
+const NOTES_LIMIT = 20;
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+
+  const url = new URL(request.url);
+  const requestedDays = Number(url.searchParams.get("days"));
+  const days = RANGES.includes(requestedDays) ? requestedDays : DEFAULT_RANGE;
+
+  const report = await getCancellationReport(session.shop, days);
+
+  return {
+    days,
+    // Labels in the report's order, since the model can't be bundled for
+    // the browser
+    reasonLabels: CANCELLATION_REASONS.map((reason) => ({
+      reason,
+      label: CANCELLATION_REASON_LABELS[reason],
+    })),
+    reasons: report.reasons,
+    products: report.products,
+    notes: report.notes.slice(0, NOTES_LIMIT).map((note) => ({
+      ...note,
+      createdAt: note.createdAt.toISOString(),
+    })),
+  };
+};
+
+/**
+ * The order's page in the Shopify admin, from its gid://shopify/Order/<id> id.
+ */
+function getOrderUrl(orderId: string) {
+  return `shopify://admin/orders/${orderId.split("/").pop()}`;
+}
+
+export default function CancellationReasons() {
+  const { days, reasonLabels, reasons, products, notes } =
+    useLoaderData<typeof loader>();
+  const [, setSearchParams] = useSearchParams();
+
+  const total = reasonLabels.reduce(
+    (sum, { reason }) => sum + reasons[reason],
+    0,
+  );
+  const labelOf = (reason: string) =>
+    reasonLabels.find((reasonLabel) => reasonLabel.reason === reason)?.label ??
+    reason;
+
+  return (
+    <s-page heading="Cancellation reasons">
+      <s-button slot="secondary-actions" href="/app/cancellations">
+        Cancellation policy
+      </s-button>
+
+      <s-section heading="Overview">
+        <s-stack direction="block" gap="base">
+          <s-select
+            label="Date range"
+            value={String(days)}
+            onChange={(e) => setSearchParams({ days: e.currentTarget.value })}
+          >
+            {RANGES.map((range) => (
+              <s-option key={range} value={String(range)}>
+                {`Last ${range} days`}
+              </s-option>
+            ))}
+          </s-select>
+
+          <s-table>
+            <s-table-header-row>
+              <s-table-header>Reason</s-table-header>
+              <s-table-header>Cancellations</s-table-header>
+              <s-table-header>Share</s-table-header>
+            </s-table-header-row>
+            <s-table-body>
+              {reasonLabels.map(({ reason, label }) => (
+                <s-table-row key={reason}>
+                  <s-table-cell>{label}</s-table-cell>
+                  <s-table-cell>{reasons[reason]}</s-table-cell>
+                  <s-table-cell>
+                    {total > 0
+                      ? `${((reasons[reason] / total) * 100).toFixed(1)}%`
+                      : "—"}
+                  </s-table-cell>
+                </s-table-row>
+              ))}
+            </s-table-body>
+          </s-table>
+        </s-stack>
+      </s-section>
+
+      <s-section heading="By product">
+        {products.length === 0 ? (
+          <s-paragraph>No orders were cancelled by customers yet.</s-paragraph>
+        ) : (
+          <s-table>
+            <s-table-header-row>
+              <s-table-header>Product</s-table-header>
+              <s-table-header>Cancellations</s-table-header>
+              {reasonLabels.map(({ reason, label }) => (
+                <s-table-header key={reason}>{label}</s-table-header>
+              ))}
+            </s-table-header-row>
+            <s-table-body>
+              {products.map((product) => (
+                <s-table-row key={product.productId ?? product.title}>
+                  <s-table-cell>
+                    <s-text type="strong">{product.title}</s-text>
+                  </s-table-cell>
+                  <s-table-cell>{product.cancellations}</s-table-cell>
+                  {reasonLabels.map(({ reason }) => (
+                    <s-table-cell key={reason}>
+                      {product.reasons[reason]}
+                    </s-table-cell>
+                  ))}
+                </s-table-row>
+              ))}
+            </s-table-body>
+          </s-table>
+        )}
+      </s-section>
+
+      {notes.length > 0 && (
+        <s-section heading="Customer notes">
+          <s-table>
+            <s-table-header-row>
+              <s-table-header>Date</s-table-header>
+              <s-table-header>Reason</s-table-header>
+              <s-table-header>Note</s-table-header>
+              <s-table-header>Order</s-table-header>
+            </s-table-header-row>
+            <s-table-body>
+              {notes.map((note) => (
+                <s-table-row key={`${note.orderId}-${note.createdAt}`}>
+                  <s-table-cell>
+                    {new Date(note.createdAt).toLocaleString()}
+                  </s-table-cell>
+                  <s-table-cell>
+                    {labelOf(note.reason)}
+                  </s-table-cell>
+                  <s-table-cell>{note.note}</s-table-cell>
+                  <s-table-cell>
+                    <s-link href={getOrderUrl(note.orderId)}>View order</s-link>
+                  </s-table-cell>
+                </s-table-row>
+              ))}
+            </s-table-body>
+          </s-table>
+        </s-section>
+      )}
+
+      <s-section slot="aside" heading="About these numbers">
+        <s-paragraph>
+          Customers pick a reason when they cancel an order from their
+          account. It&apos;s also added to the order&apos;s staff note and
+          tagged on the order, like cancel-reason-found-cheaper.
+        </s-paragraph>
+        <s-paragraph>
+          A cancelled order counts once for each of its products, so product
+          counts add up to more than the number of cancellations.
+        </s-paragraph>
+      </s-section>
+    </s-page>
+  );
+}
+
+export const headers: HeadersFunction = (headersArgs) => {
+  return boundary.headers(headersArgs);
+};
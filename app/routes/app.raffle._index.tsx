@@ -0,0 +1,393 @@
+import { useEffect, useState } from "react";
+import type {
+  ActionFunctionArgs,
+  HeadersFunction,
+  LoaderFunctionArgs,
+} from "react-router";
+import { useFetcher, useLoaderData } from "react-router";
+import { useAppBridge } from "@shopify/app-bridge-react";
+import { authenticate } from "../shopify.server";
+import { boundary } from "@shopify/shopify-app-react-router/server";
+import {
+  createRaffleCampaign,
+  endRaffleCampaign,
+  getCampaignState,
+  getRaffleCampaign,
+  getRaffleCampaigns,
+  pauseRaffleCampaign,
+  resumeRaffleCampaign,
+} from "../models/raffle-campaign.server";
+import type { RaffleCampaignState } from "../models/raffle-campaign.server";
+import { getShopTimezoneOffset } from "../models/raffle-discount.server";
+import {
+  getRaffleSetupHealth,
+  repairRaffleCampaignDiscount,
+} from "../models/raffle-setup.server";
+import type { RaffleDiscountProblem } from "../models/raffle-setup.server";
+
+interface ActionResponse {
+  success: boolean;
+  message?: string;
+  error?: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const STATE_BADGES: Record<
+  RaffleCampaignState,
+  { label: string; tone: "success" | "info" | "warning" | "neutral" }
+> = {
+  active: { label: "Active", tone: "success" },
+  scheduled: { label: "Scheduled", tone: "info" },
+  paused: { label: "Paused", tone: "warning" },
+  ended: { label: "Ended", tone: "neutral" },
+};
+
+const DISCOUNT_PROBLEMS: Record<RaffleDiscountProblem, string> = {
+  missing: "has no Raffle Discount",
+  deleted: "lost its Raffle Discount, which was deleted",
+  inactive: "has a Raffle Discount that was deactivated",
+};
+
+/**
+ * The discount's page in the Shopify admin, from its
+ * gid://shopify/DiscountAutomaticNode/<id> id.
+ */
+function getDiscountUrl(discountId: string) {
+  return `shopify://admin/discounts/${discountId.split("/").pop()}`;
+}
+
+/**
+ * Parses a YYYY-MM-DD date field value as the start of that day in the
+ * shop's timezone, `timezoneOffsetMinutes` ahead of UTC.
+ */
+function parseDate(
+  value: string | null,
+  timezoneOffsetMinutes: number,
+): Date | null {
+  if (!value) {
+    return null;
+  }
+
+  const date = new Date(`${value}T00:00:00.000Z`);
+  return isNaN(date.getTime())
+    ? null
+    : new Date(date.getTime() - timezoneOffsetMinutes * 60 * 1000);
+}
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { admin, session } = await authenticate.admin(request);
+  const campaigns = await getRaffleCampaigns(session.shop);
+  const health = await getRaffleSetupHealth(admin, session.shop);
+
+  return {
+    campaigns: campaigns.map((campaign) => ({
+      id: campaign.id,
+      name: campaign.name,
+      state: getCampaignState(campaign),
+      startsAt: campaign.startsAt.toISOString(),
+      endsAt: campaign.endsAt?.toISOString() ?? null,
+      discountUrl: campaign.discountId
+        ? getDiscountUrl(campaign.discountId)
+        : null,
+    })),
+    health,
+  };
+};
+
+export const action = async ({
+  request,
+}: ActionFunctionArgs): Promise<ActionResponse> => {
+  const { admin, session } = await authenticate.admin(request);
+  const formData = await request.formData();
+  const intent = formData.get("intent") as string;
+
+  if (intent === "create") {
+    const name = ((formData.get("name") as string) || "").trim();
+    const timezoneOffsetMinutes = await getShopTimezoneOffset(admin);
+    const startDate = parseDate(
+      formData.get("startDate") as string,
+      timezoneOffsetMinutes,
+    );
+    const endDate = parseDate(
+      formData.get("endDate") as string,
+      timezoneOffsetMinutes,
+    );
+
+    if (!name || !startDate) {
+      return { success: false, error: "Name and start date are required" };
+    }
+
+    // Campaigns starting today or earlier start right away, and end dates
+    // are inclusive, so the campaign runs until the end of that day
+    const now = new Date();
+    const startsAt = startDate > now ? startDate : now;
+    const endsAt = endDate ? new Date(endDate.getTime() + DAY_MS) : null;
+
+    if (endsAt && endsAt <= startsAt) {
+      return { success: false, error: "End date must be after the start date" };
+    }
+
+    const error = await createRaffleCampaign(admin, session.shop, {
+      name,
+      startsAt,
+      endsAt,
+    });
+
+    return error
+      ? { success: false, error }
+      : { success: true, message: "Campaign created" };
+  }
+
+  const campaign = await getRaffleCampaign(
+    session.shop,
+    Number(formData.get("campaignId")),
+  );
+
+  if (!campaign) {
+    return { success: false, error: "Campaign not found" };
+  }
+
+  if (intent === "pause") {
+    const error = await pauseRaffleCampaign(admin, campaign);
+    return error
+      ? { success: false, error }
+      : { success: true, message: "Campaign paused" };
+  }
+
+  if (intent === "resume") {
+    const error = await resumeRaffleCampaign(admin, campaign);
+    return error
+      ? { success: false, error }
+      : { success: true, message: "Campaign resumed" };
+  }
+
+  if (intent === "end") {
+    const error = await endRaffleCampaign(admin, campaign);
+    return error
+      ? { success: false, error }
+      : { success: true, message: "Campaign ended" };
+  }
+
+  if (intent === "repair") {
+    const error = await repairRaffleCampaignDiscount(admin, campaign);
+    return error
+      ? { success: false, error }
+      : { success: true, message: "Raffle Discount repaired" };
+  }
+
+  return { success: false, error: "Invalid action" };
+};
+
+export default function RaffleCampaigns() {
+  const { campaigns, health } = useLoaderData<typeof loader>();
+  const fetcher = useFetcher<typeof action>();
+  const shopify = useAppBridge();
+
+  const [name, setName] = useState("");
+  const [startDate, setStartDate] = useState(
+    new Date().toISOString().split("T")[0],
+  );
+  const [endDate, setEndDate] = useState("");
+
+  const isSubmitting = fetcher.state !== "idle";
+  const hasOpenCampaign = campaigns.some(
+    (campaign) => campaign.state !== "ended",
+  );
+
+  useEffect(() => {
+    if (fetcher.data?.success) {
+      shopify.toast.show(fetcher.data.message || "Saved");
+      setName("");
+      setEndDate("");
+    } else if (fetcher.data?.error) {
+      shopify.toast.show(fetcher.data.error, { isError: true });
+    }
+  }, [fetcher.data, shopify]);
+
+  const handleCreate = () => {
+    fetcher.submit(
+      { intent: "create", name, startDate, endDate },
+      { method: "POST" },
+    );
+  };
+
+  const submitIntent = (intent: string, campaignId: number) => {
+    fetcher.submit({ intent, campaignId }, { method: "POST" });
+  };
+
+  return (
+    <s-page heading="Raffle campaigns">
+      <s-button slot="secondary-actions" href="/app/raffle/prizes">
+        Edit prizes
+      </s-button>
+
+      {!health.functionDeployed && (
+        <s-banner tone="critical" heading="Raffle discount function not found">
+          <s-paragraph>
+            The raffle-discount-function extension isn&apos;t deployed, so
+            won prizes can&apos;t be applied at checkout. Deploy the app to
+            release it, then reload this page.
+          </s-paragraph>
+        </s-banner>
+      )}
+
+      {health.campaigns.map((campaignHealth) => (
+        <s-banner
+          key={campaignHealth.campaignId}
+          tone="warning"
+          heading="Raffle Discount needs repair"
+        >
+          <s-paragraph>
+            The campaign &quot;{campaignHealth.name}&quot;{" "}
+            {DISCOUNT_PROBLEMS[campaignHealth.problem]}, so won prizes
+            aren&apos;t applied at checkout.
+          </s-paragraph>
+          <s-button
+            slot="secondary-actions"
+            disabled={isSubmitting || !health.functionDeployed}
+            onClick={() => submitIntent("repair", campaignHealth.campaignId)}
+          >
+            Repair discount
+          </s-button>
+        </s-banner>
+      ))}
+
+      {!hasOpenCampaign && (
+        <s-section heading="New campaign">
+          <s-stack direction="block" gap="base">
+            <s-text-field
+              label="Name"
+              value={name}
+              onInput={(e) => setName(e.currentTarget.value)}
+              placeholder="Summer raffle"
+              required
+            />
+            <s-date-field
+              label="Start date"
+              value={startDate}
+              onChange={(e) => setStartDate(e.currentTarget.value)}
+              required
+            />
+            <s-date-field
+              label="End date"
+              details="Optional. The campaign runs until the end of this day."
+              value={endDate}
+              onChange={(e) => setEndDate(e.currentTarget.value)}
+            />
+            <s-stack direction="inline" gap="base">
+              <s-button
+                variant="primary"
+                onClick={handleCreate}
+                disabled={!name.trim() || !startDate}
+                {...(isSubmitting ? { loading: true } : {})}
+              >
+                Create campaign
+              </s-button>
+            </s-stack>
+          </s-stack>
+        </s-section>
+      )}
+
+      <s-section heading="Campaigns">
+        {campaigns.length === 0 ? (
+          <s-paragraph>
+            No campaigns yet. The raffle only draws prizes while a campaign is
+            active.
+          </s-paragraph>
+        ) : (
+          <s-table>
+            <s-table-header-row>
+              <s-table-header>Name</s-table-header>
+              <s-table-header>Status</s-table-header>
+              <s-table-header>Starts</s-table-header>
+              <s-table-header>Ends</s-table-header>
+              <s-table-header>Actions</s-table-header>
+            </s-table-header-row>
+            <s-table-body>
+              {campaigns.map((campaign) => (
+                <s-table-row key={campaign.id}>
+                  <s-table-cell>
+                    <s-text type="strong">{campaign.name}</s-text>
+                  </s-table-cell>
+                  <s-table-cell>
+                    <s-badge tone={STATE_BADGES[campaign.state].tone}>
+                      {STATE_BADGES[campaign.state].label}
+                    </s-badge>
+                  </s-table-cell>
+                  <s-table-cell>
+                    {new Date(campaign.startsAt).toLocaleString()}
+                  </s-table-cell>
+                  <s-table-cell>
+                    {campaign.endsAt
+                      ? new Date(campaign.endsAt).toLocaleString()
+                      : "—"}
+                  </s-table-cell>
+                  <s-table-cell>
+                    <s-stack direction="inline" gap="small">
+                      {(campaign.state === "active" ||
+                        campaign.state === "scheduled") && (
+                        <s-button
+                          variant="tertiary"
+                          disabled={isSubmitting}
+                          onClick={() => submitIntent("pause", campaign.id)}
+                        >
+                          Pause
+                        </s-button>
+                      )}
+                      {campaign.state === "paused" && (
+                        <s-button
+                          variant="tertiary"
+                          disabled={isSubmitting}
+                          onClick={() => submitIntent("resume", campaign.id)}
+                        >
+                          Resume
+                        </s-button>
+                      )}
+                      {campaign.state !== "ended" && (
+                        <s-button
+                          variant="tertiary"
+                          tone="critical"
+                          disabled={isSubmitting}
+                          onClick={() => submitIntent("end", campaign.id)}
+                        >
+                          End
+                        </s-button>
+                      )}
+                      {campaign.discountUrl && (
+                        <s-button variant="tertiary" href={campaign.discountUrl}>
+                          View discount
+                        </s-button>
+                      )}
+                    </s-stack>
+                  </s-table-cell>
+                </s-table-row>
+              ))}
+            </s-table-body>
+          </s-table>
+        )}
+      </s-section>
+
+      <s-section slot="aside" heading="About campaigns">
+        <s-paragraph>
+          Each campaign creates its own Raffle Discount, scheduled for the
+          campaign&apos;s dates. Pausing or ending a campaign stops both new
+          draws on the storefront and the discount at checkout.
+        </s-paragraph>
+        <s-paragraph>
+          Only one campaign can run at a time. Shoppers get one play per cart
+          and per IP address in each campaign, so shoppers sharing a network
+          share their play.
+        </s-paragraph>
+        <s-paragraph>
+          If a campaign&apos;s discount is deleted or deactivated in Discounts,
+          a banner on this page offers to repair it.
+        </s-paragraph>
+      </s-section>
+    </s-page>
+  );
+}
+
+export const headers: HeadersFunction = (headersArgs) => {
+  return boundary.headers(headersArgs);
+};
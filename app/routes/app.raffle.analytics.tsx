@@ -0,0 +1,216 @@
+import type { HeadersFunction, LoaderFunctionArgs } from "react-router";
+import { useLoaderData, useSearchParams } from "react-router";
+import { authenticate } from "../shopify.server";
+import { boundary } from "@shopify/shopify-app-react-router/server";
+import { getRaffleAnalytics } from "../models/raffle-analytics.server";
+import type { RaffleAnalyticsDay } from "../models/raffle-analytics.server";
+
+const RANGES = [7, 30, 90];
+const DEFAULT_RANGE = 30;
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { admin, session } = await authenticate.admin(request);
+
+  const url = new URL(request.url);
+  const requestedDays = Number(url.searchParams.get("days"));
+  const days = RANGES.includes(requestedDays) ? requestedDays : DEFAULT_RANGE;
+
+  const [analytics, shopResponse] = await Promise.all([
+    getRaffleAnalytics(session.shop, days),
+    admin.graphql(
+      `#graphql
+      query GetShopCurrency {
+        shop {
+          currencyCode
+        }
+      }`
+    ),
+  ]);
+  const shopJson = await shopResponse.json();
+
+  return {
+    days,
+    analytics,
+    currencyCode: (shopJson.data?.shop?.currencyCode as string) ?? "",
+  };
+};
+
+function formatPercent(value: number, total: number) {
+  return total > 0 ? `${((value / total) * 100).toFixed(1)}%` : "—";
+}
+
+/**
+ * A bar per day, scaled to the busiest day in the range.
+ */
+function DailyBarChart({
+  label,
+  analytics,
+  value,
+  format = String,
+}: {
+  label: string;
+  analytics: RaffleAnalyticsDay[];
+  value: (day: RaffleAnalyticsDay) => number;
+  format?: (value: number) => string;
+}) {
+  const width = 600;
+  const height = 120;
+  const max = Math.max(...analytics.map(value), 0);
+  const barWidth = width / analytics.length;
+
+  return (
+    <svg
+      role="img"
+      aria-label={label}
+      viewBox={`0 0 ${width} ${height}`}
+      width="100%"
+      height={height}
+      preserveAspectRatio="none"
+    >
+      {analytics.map((day, index) => {
+        const barHeight = max > 0 ? (value(day) / max) * height : 0;
+
+        return (
+          <rect
+            key={day.date}
+            x={index * barWidth + barWidth * 0.1}
+            y={height - barHeight}
+            width={barWidth * 0.8}
+            height={barHeight}
+            fill="#008060"
+          >
+            <title>{`${day.date}: ${format(value(day))}`}</title>
+          </rect>
+        );
+      })}
+    </svg>
+  );
+}
+
+export default function RaffleAnalytics() {
+  const { days, analytics, currencyCode } = useLoaderData<typeof loader>();
+  const [, setSearchParams] = useSearchParams();
+
+  const formatAmount = (amount: number) =>
+    `${amount.toFixed(2)} ${currencyCode}`;
+
+  const totals = analytics.reduce(
+    (total, day) => ({
+      plays: total.plays + day.plays,
+      wins: total.wins + day.wins,
+      redemptions: total.redemptions + day.redemptions,
+      discountAmount: total.discountAmount + day.discountAmount,
+    }),
+    { plays: 0, wins: 0, redemptions: 0, discountAmount: 0 },
+  );
+
+  return (
+    <s-page heading="Raffle analytics">
+      <s-section heading="Overview">
+        <s-stack direction="block" gap="base">
+          <s-select
+            label="Date range"
+            value={String(days)}
+            onChange={(e) => setSearchParams({ days: e.currentTarget.value })}
+          >
+            {RANGES.map((range) => (
+              <s-option key={range} value={String(range)}>
+                {`Last ${range} days`}
+              </s-option>
+            ))}
+          </s-select>
+
+          <s-table>
+            <s-table-header-row>
+              <s-table-header>Plays</s-table-header>
+              <s-table-header>Wins</s-table-header>
+              <s-table-header>Redemptions</s-table-header>
+              <s-table-header>Conversion</s-table-header>
+              <s-table-header>Discount given</s-table-header>
+            </s-table-header-row>
+            <s-table-body>
+              <s-table-row>
+                <s-table-cell>{totals.plays}</s-table-cell>
+                <s-table-cell>{totals.wins}</s-table-cell>
+                <s-table-cell>{totals.redemptions}</s-table-cell>
+                <s-table-cell>
+                  {formatPercent(totals.redemptions, totals.wins)}
+                </s-table-cell>
+                <s-table-cell>{formatAmount(totals.discountAmount)}</s-table-cell>
+              </s-table-row>
+            </s-table-body>
+          </s-table>
+        </s-stack>
+      </s-section>
+
+      <s-section heading="Plays per day">
+        <DailyBarChart
+          label="Plays per day"
+          analytics={analytics}
+          value={(day) => day.plays}
+        />
+      </s-section>
+
+      <s-section heading="Conversion per day">
+        <DailyBarChart
+          label="Share of wins redeemed per day"
+          analytics={analytics}
+          value={(day) => (day.wins > 0 ? day.redemptions / day.wins : 0)}
+          format={(value) => `${(value * 100).toFixed(1)}%`}
+        />
+      </s-section>
+
+      <s-section heading="Discount given per day">
+        <DailyBarChart
+          label="Discount given per day"
+          analytics={analytics}
+          value={(day) => day.discountAmount}
+          format={formatAmount}
+        />
+      </s-section>
+
+      <s-section heading="Daily breakdown">
+        <s-table>
+          <s-table-header-row>
+            <s-table-header>Date</s-table-header>
+            <s-table-header>Plays</s-table-header>
+            <s-table-header>Wins</s-table-header>
+            <s-table-header>Redemptions</s-table-header>
+            <s-table-header>Conversion</s-table-header>
+            <s-table-header>Discount given</s-table-header>
+          </s-table-header-row>
+          <s-table-body>
+            {[...analytics].reverse().map((day) => (
+              <s-table-row key={day.date}>
+                <s-table-cell>{day.date}</s-table-cell>
+                <s-table-cell>{day.plays}</s-table-cell>
+                <s-table-cell>{day.wins}</s-table-cell>
+                <s-table-cell>{day.redemptions}</s-table-cell>
+                <s-table-cell>
+                  {formatPercent(day.redemptions, day.wins)}
+                </s-table-cell>
+                <s-table-cell>{formatAmount(day.discountAmount)}</s-table-cell>
+              </s-table-row>
+            ))}
+          </s-table-body>
+        </s-table>
+      </s-section>
+
+      <s-section slot="aside" heading="About these numbers">
+        <s-paragraph>
+          A play is a shopper&apos;s first draw in a campaign. Wins are plays
+          that drew a prize, and redemptions are orders placed with a raffle
+          discount applied.
+        </s-paragraph>
+        <s-paragraph>
+          Conversion is the share of wins that were redeemed. Redemptions are
+          counted on the day the order was placed, in UTC.
+        </s-paragraph>
+      </s-section>
+    </s-page>
+  );
+}
+
+export const headers: HeadersFunction = (headersArgs) => {
+  return boundary.headers(headersArgs);
+};
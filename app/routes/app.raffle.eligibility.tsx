@@ -0,0 +1,291 @@
+import { useEffect, useState } from "react";
+import type {
+  ActionFunctionArgs,
+  HeadersFunction,
+  LoaderFunctionArgs,
+} from "react-router";
+import { useFetcher, useLoaderData } from "react-router";
+import { useAppBridge } from "@shopify/app-bridge-react";
+import { authenticate } from "../shopify.server";
+import { boundary } from "@shopify/shopify-app-react-router/server";
+import {
+  getRaffleSettings,
+  parseEligibilityRules,
+  updateEligibilityRules,
+  updatePlayerRequirements,
+  validateEligibilityRules,
+} from "../models/raffle.server";
+import type { RaffleEligibilityRules } from "../models/raffle.server";
+import { syncRaffleDiscountConfigurations } from "../models/raffle-campaign.server";
+
+interface ActionResponse {
+  success: boolean;
+  message?: string;
+  error?: string;
+}
+
+interface ExcludedCollection {
+  id: string;
+  title: string;
+}
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { admin, session } = await authenticate.admin(request);
+  const settings = await getRaffleSettings(session.shop);
+  const rules = parseEligibilityRules(settings.eligibilityRules);
+
+  const response = await admin.graphql(
+    `#graphql
+    query GetRaffleEligibilityDetails($collectionIds: [ID!]!) {
+      shop {
+        currencyCode
+      }
+      nodes(ids: $collectionIds) {
+        ... on Collection {
+          id
+          title
+        }
+      }
+    }`,
+    {
+      variables: { collectionIds: rules.excludedCollectionIds },
+    }
+  );
+  const json = await response.json();
+
+  // Collections deleted since they were excluded come back as null
+  const collections: ExcludedCollection[] = (json.data?.nodes || []).filter(
+    (node: ExcludedCollection | null) => node?.id,
+  );
+
+  return {
+    rules,
+    requireLogin: settings.requireLogin,
+    requireEmail: settings.requireEmail,
+    requireConsent: settings.requireConsent,
+    collections,
+    currencyCode: (json.data?.shop?.currencyCode as string) ?? "",
+  };
+};
+
+export const action = async ({
+  request,
+}: ActionFunctionArgs): Promise<ActionResponse> => {
+  const { admin, session } = await authenticate.admin(request);
+  const formData = await request.formData();
+
+  const minimumSubtotal = formData.get("minimumSubtotal") as string;
+  const rules: RaffleEligibilityRules = {
+    minimumSubtotal: minimumSubtotal ? Number(minimumSubtotal) : null,
+    customerTags: ((formData.get("customerTags") as string) || "")
+      .split(",")
+      .map((tag) => tag.trim())
+      .filter(Boolean),
+    excludedCollectionIds: formData.getAll("excludedCollectionIds") as string[],
+  };
+
+  const validationError = validateEligibilityRules(rules);
+  if (validationError) {
+    return { success: false, error: validationError };
+  }
+
+  await updateEligibilityRules(session.shop, rules);
+  const requireEmail = formData.get("requireEmail") === "true";
+  await updatePlayerRequirements(session.shop, {
+    requireLogin: formData.get("requireLogin") === "true",
+    requireEmail,
+    // Consent can only be asked for along with the email
+    requireConsent: requireEmail && formData.get("requireConsent") === "true",
+  });
+
+  // The discount function evaluates the rules from the discount's configuration
+  const syncError = await syncRaffleDiscountConfigurations(admin, session.shop);
+  if (syncError) {
+    return {
+      success: false,
+      error: `Eligibility rules saved, but the raffle discount couldn't be updated: ${syncError}`,
+    };
+  }
+
+  return { success: true, message: "Eligibility rules saved" };
+};
+
+export default function RaffleEligibility() {
+  const {
+    rules,
+    requireLogin: savedRequireLogin,
+    requireEmail: savedRequireEmail,
+    requireConsent: savedRequireConsent,
+    collections: savedCollections,
+    currencyCode,
+  } = useLoaderData<typeof loader>();
+  const fetcher = useFetcher<typeof action>();
+  const shopify = useAppBridge();
+
+  const [minimumSubtotal, setMinimumSubtotal] = useState(
+    rules.minimumSubtotal !== null ? String(rules.minimumSubtotal) : "",
+  );
+  const [customerTags, setCustomerTags] = useState(
+    rules.customerTags.join(", "),
+  );
+  const [requireLogin, setRequireLogin] = useState(savedRequireLogin);
+  const [requireEmail, setRequireEmail] = useState(savedRequireEmail);
+  const [requireConsent, setRequireConsent] = useState(savedRequireConsent);
+  const [collections, setCollections] =
+    useState<ExcludedCollection[]>(savedCollections);
+
+  const isSaving = fetcher.state !== "idle";
+
+  useEffect(() => {
+    if (fetcher.data?.success) {
+      shopify.toast.show(fetcher.data.message || "Saved");
+    } else if (fetcher.data?.error) {
+      shopify.toast.show(fetcher.data.error, { isError: true });
+    }
+  }, [fetcher.data, shopify]);
+
+  const pickCollections = async () => {
+    const selected = await shopify.resourcePicker({
+      type: "collection",
+      multiple: true,
+      selectionIds: collections.map(({ id }) => ({ id })),
+    });
+
+    // The picker resolves without a selection when it's cancelled
+    if (selected) {
+      setCollections(selected.map(({ id, title }) => ({ id, title })));
+    }
+  };
+
+  const removeCollection = (id: string) => {
+    setCollections((current) =>
+      current.filter((collection) => collection.id !== id),
+    );
+  };
+
+  const handleSave = () => {
+    const formData = new FormData();
+    formData.append("minimumSubtotal", minimumSubtotal);
+    formData.append("customerTags", customerTags);
+    formData.append("requireLogin", String(requireLogin));
+    formData.append("requireEmail", String(requireEmail));
+    formData.append("requireConsent", String(requireConsent));
+    collections.forEach(({ id }) =>
+      formData.append("excludedCollectionIds", id),
+    );
+
+    fetcher.submit(formData, { method: "POST" });
+  };
+
+  return (
+    <s-page heading="Raffle eligibility">
+      <s-button
+        slot="primary-action"
+        variant="primary"
+        onClick={handleSave}
+        {...(isSaving ? { loading: true } : {})}
+      >
+        Save
+      </s-button>
+
+      <s-section heading="Players">
+        <s-stack direction="block" gap="base">
+          <s-checkbox
+            label="Require customers to log in to play"
+            details="Each customer account gets one play per campaign, and won prizes are saved to the customer so they can be redeemed on a later visit."
+            checked={requireLogin}
+            onChange={(e) => setRequireLogin(e.currentTarget.checked)}
+          />
+          <s-checkbox
+            label="Ask for an email to play"
+            details="Shoppers enter their email before trying their luck. They're added as customers and listed under Raffle leads."
+            checked={requireEmail}
+            onChange={(e) => setRequireEmail(e.currentTarget.checked)}
+          />
+          {requireEmail && (
+            <s-checkbox
+              label="Require email marketing consent"
+              details="Only shoppers who agree to receive marketing emails can play. Otherwise, agreeing is optional."
+              checked={requireConsent}
+              onChange={(e) => setRequireConsent(e.currentTarget.checked)}
+            />
+          )}
+        </s-stack>
+      </s-section>
+
+      <s-section heading="Cart requirements">
+        <s-stack direction="block" gap="base">
+          <s-number-field
+            label="Minimum subtotal"
+            details="Leave empty to apply raffle prizes to carts of any value."
+            value={minimumSubtotal}
+            suffix={currencyCode}
+            min={0}
+            onInput={(e) => setMinimumSubtotal(e.currentTarget.value)}
+          />
+          <s-text-field
+            label="Customer tags"
+            details="Comma separated. Only logged-in customers with at least one of these tags get their prize. Leave empty to allow everyone."
+            value={customerTags}
+            onInput={(e) => setCustomerTags(e.currentTarget.value)}
+            placeholder="VIP, Newsletter"
+          />
+        </s-stack>
+      </s-section>
+
+      <s-section heading="Excluded collections">
+        <s-stack direction="block" gap="base">
+          <s-paragraph>
+            Products in these collections, such as items already on sale, are
+            never discounted by a raffle prize.
+          </s-paragraph>
+
+          {collections.length > 0 && (
+            <s-table>
+              <s-table-header-row>
+                <s-table-header>Collection</s-table-header>
+                <s-table-header>Actions</s-table-header>
+              </s-table-header-row>
+              <s-table-body>
+                {collections.map((collection) => (
+                  <s-table-row key={collection.id}>
+                    <s-table-cell>{collection.title}</s-table-cell>
+                    <s-table-cell>
+                      <s-button
+                        variant="tertiary"
+                        tone="critical"
+                        accessibilityLabel={`Remove ${collection.title}`}
+                        onClick={() => removeCollection(collection.id)}
+                      >
+                        Remove
+                      </s-button>
+                    </s-table-cell>
+                  </s-table-row>
+                ))}
+              </s-table-body>
+            </s-table>
+          )}
+
+          <s-stack direction="inline" gap="base">
+            <s-button onClick={pickCollections}>Choose collections</s-button>
+          </s-stack>
+        </s-stack>
+      </s-section>
+
+      <s-section slot="aside" heading="About eligibility">
+        <s-paragraph>
+          Shoppers can still play the raffle, but their prize only applies at
+          checkout once the cart meets these rules.
+        </s-paragraph>
+        <s-paragraph>
+          The minimum subtotal is in your store&apos;s currency and is
+          converted at checkout. It also applies to free shipping prizes.
+        </s-paragraph>
+      </s-section>
+    </s-page>
+  );
+}
+
+export const headers: HeadersFunction = (headersArgs) => {
+  return boundary.headers(headersArgs);
+};
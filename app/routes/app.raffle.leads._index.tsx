@@ -0,0 +1,108 @@
+import { useState } from "react";
+import type { HeadersFunction, LoaderFunctionArgs } from "react-router";
+import { useLoaderData } from "react-router";
+import { useAppBridge } from "@shopify/app-bridge-react";
+import { authenticate } from "../shopify.server";
+import { boundary } from "@shopify/shopify-app-react-router/server";
+import { getRaffleLeads } from "../models/raffle-lead.server";
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const leads = await getRaffleLeads(session.shop);
+
+  return {
+    leads: leads.map((lead) => ({
+      id: lead.id,
+      email: lead.email,
+      marketingConsent: lead.marketingConsent,
+      createdAt: lead.createdAt.toISOString(),
+    })),
+  };
+};
+
+export default function RaffleLeads() {
+  const { leads } = useLoaderData<typeof loader>();
+  const shopify = useAppBridge();
+  const [isExporting, setIsExporting] = useState(false);
+
+  // App Bridge authenticates fetch requests to the app, so the CSV is
+  // downloaded through fetch rather than a plain link
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const response = await fetch("/app/raffle/leads/export");
+      if (!response.ok) {
+        throw new Error(`Export failed: ${response.status}`);
+      }
+
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = "raffle-leads.csv";
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error(error);
+      shopify.toast.show("Couldn't export leads", { isError: true });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <s-page heading="Raffle leads">
+      <s-button
+        slot="primary-action"
+        onClick={handleExport}
+        disabled={leads.length === 0}
+        {...(isExporting ? { loading: true } : {})}
+      >
+        Export CSV
+      </s-button>
+
+      <s-section heading="Leads">
+        {leads.length === 0 ? (
+          <s-paragraph>
+            No leads yet. Turn on &quot;Ask for an email to play&quot; under
+            Raffle eligibility to collect emails from players.
+          </s-paragraph>
+        ) : (
+          <s-table>
+            <s-table-header-row>
+              <s-table-header>Email</s-table-header>
+              <s-table-header>Marketing</s-table-header>
+              <s-table-header>Entered</s-table-header>
+            </s-table-header-row>
+            <s-table-body>
+              {leads.map((lead) => (
+                <s-table-row key={lead.id}>
+                  <s-table-cell>{lead.email}</s-table-cell>
+                  <s-table-cell>
+                    <s-badge tone={lead.marketingConsent ? "success" : "neutral"}>
+                      {lead.marketingConsent ? "Subscribed" : "Not subscribed"}
+                    </s-badge>
+                  </s-table-cell>
+                  <s-table-cell>
+                    {new Date(lead.createdAt).toLocaleString()}
+                  </s-table-cell>
+                </s-table-row>
+              ))}
+            </s-table-body>
+          </s-table>
+        )}
+      </s-section>
+
+      <s-section slot="aside" heading="About leads">
+        <s-paragraph>
+          Every email entered in the raffle is also added to your customers.
+          Shoppers who agreed to marketing are subscribed to your marketing
+          emails.
+        </s-paragraph>
+      </s-section>
+    </s-page>
+  );
+}
+
+export const headers: HeadersFunction = (headersArgs) => {
+  return boundary.headers(headersArgs);
+};
@@ -0,0 +1,18 @@
+import type { LoaderFunctionArgs } from "react-router";
+import { authenticate } from "../shopify.server";
+import { getRaffleLeads, raffleLeadsToCsv } from "../models/raffle-lead.server";
+
+/**
+ * Downloads the shop's raffle leads as a CSV file.
+ */
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const leads = await getRaffleLeads(session.shop);
+
+  return new Response(raffleLeadsToCsv(leads), {
+    headers: {
+      "Content-Type": "text/csv; charset=utf-8",
+      "Content-Disposition": 'attachment; filename="raffle-leads.csv"',
+    },
+  });
+};
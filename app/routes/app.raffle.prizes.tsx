@@ -0,0 +1,383 @@
+import { useEffect, useState } from "react";
+import type {
+  ActionFunctionArgs,
+  HeadersFunction,
+  LoaderFunctionArgs,
+} from "react-router";
+import { useFetcher, useLoaderData } from "react-router";
+import { useAppBridge } from "@shopify/app-bridge-react";
+import { authenticate } from "../shopify.server";
+import { boundary } from "@shopify/shopify-app-react-router/server";
+import {
+  getRaffleSettings,
+  parsePrizeTable,
+  RAFFLE_FULFILLMENT_MODES,
+  updateDailyWinCap,
+  updateFulfillmentMode,
+  updatePrizeTable,
+  validatePrizeTable,
+} from "../models/raffle.server";
+import type {
+  RaffleFulfillmentMode,
+  RafflePrize,
+  RafflePrizeType,
+} from "../models/raffle.server";
+import { syncRaffleDiscountConfigurations } from "../models/raffle-campaign.server";
+
+interface ActionResponse {
+  success: boolean;
+  message?: string;
+  error?: string;
+}
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { admin, session } = await authenticate.admin(request);
+  const settings = await getRaffleSettings(session.shop);
+
+  const shopResponse = await admin.graphql(
+    `#graphql
+    query GetShopCurrency {
+      shop {
+        currencyCode
+      }
+    }`
+  );
+  const shopJson = await shopResponse.json();
+
+  return {
+    prizes: parsePrizeTable(settings.prizeTable),
+    dailyWinCap: settings.dailyWinCap,
+    fulfillment: settings.fulfillment as RaffleFulfillmentMode,
+    currencyCode: (shopJson.data?.shop?.currencyCode as string) ?? "",
+  };
+};
+
+export const action = async ({
+  request,
+}: ActionFunctionArgs): Promise<ActionResponse> => {
+  const { admin, session } = await authenticate.admin(request);
+  const formData = await request.formData();
+
+  let prizes: RafflePrize[];
+  try {
+    prizes = JSON.parse(formData.get("prizes") as string);
+  } catch {
+    return { success: false, error: "Invalid prize table" };
+  }
+
+  const validationError = validatePrizeTable(prizes);
+  if (validationError) {
+    return { success: false, error: validationError };
+  }
+
+  const dailyWinCapValue = formData.get("dailyWinCap") as string;
+  const dailyWinCap = dailyWinCapValue ? Number(dailyWinCapValue) : null;
+  if (
+    dailyWinCap !== null &&
+    (!Number.isInteger(dailyWinCap) || dailyWinCap < 1)
+  ) {
+    return {
+      success: false,
+      error: "The daily prize limit must be a whole number of at least 1",
+    };
+  }
+
+  const fulfillment = formData.get("fulfillment") as RaffleFulfillmentMode;
+  if (!RAFFLE_FULFILLMENT_MODES.includes(fulfillment)) {
+    return { success: false, error: "Choose how prizes are applied" };
+  }
+
+  await updatePrizeTable(session.shop, prizes);
+  await updateDailyWinCap(session.shop, dailyWinCap);
+  await updateFulfillmentMode(session.shop, fulfillment);
+
+  // The discount function validates raffle tokens against the same table
+  const syncError = await syncRaffleDiscountConfigurations(admin, session.shop);
+  if (syncError) {
+    return {
+      success: false,
+      error: `Prize table saved, but the raffle discount couldn't be updated: ${syncError}`,
+    };
+  }
+
+  return { success: true, message: "Prize table saved" };
+};
+
+function describePrize(prize: RafflePrize, currencyCode: string) {
+  switch (prize.type) {
+    case "percentage":
+      return `${prize.value}% off order`;
+    case "fixed_amount":
+      return `${prize.value} ${currencyCode} off order`;
+    case "free_shipping":
+      return "Free shipping";
+    case "product_percentage":
+      return `${prize.value}% off selected products`;
+    default:
+      return "No prize";
+  }
+}
+
+export default function RafflePrizes() {
+  const {
+    prizes: savedPrizes,
+    dailyWinCap: savedDailyWinCap,
+    fulfillment: savedFulfillment,
+    currencyCode,
+  } = useLoaderData<typeof loader>();
+  const fetcher = useFetcher<typeof action>();
+  const shopify = useAppBridge();
+
+  const [prizes, setPrizes] = useState<RafflePrize[]>(savedPrizes);
+  const [dailyWinCap, setDailyWinCap] = useState(
+    savedDailyWinCap !== null ? String(savedDailyWinCap) : "",
+  );
+  const [fulfillment, setFulfillment] = useState(savedFulfillment);
+
+  const isSaving = fetcher.state !== "idle";
+  const totalWeight = prizes.reduce(
+    (total, prize) => total + (prize.weight > 0 ? prize.weight : 0),
+    0,
+  );
+
+  useEffect(() => {
+    if (fetcher.data?.success) {
+      shopify.toast.show(fetcher.data.message || "Saved");
+    } else if (fetcher.data?.error) {
+      shopify.toast.show(fetcher.data.error, { isError: true });
+    }
+  }, [fetcher.data, shopify]);
+
+  const updatePrize = (index: number, changes: Partial<RafflePrize>) => {
+    setPrizes((current) =>
+      current.map((prize, i) => (i === index ? { ...prize, ...changes } : prize)),
+    );
+  };
+
+  const addPrize = () => {
+    setPrizes((current) => [
+      ...current,
+      { id: crypto.randomUUID(), type: "percentage", value: 5, weight: 1 },
+    ]);
+  };
+
+  const pickTargets = async (index: number, type: "product" | "collection") => {
+    const key = type === "product" ? "productIds" : "collectionIds";
+    const selected = await shopify.resourcePicker({
+      type,
+      multiple: true,
+      selectionIds: (prizes[index][key] ?? []).map((id) => ({ id })),
+    });
+
+    // The picker resolves without a selection when it's cancelled
+    if (selected) {
+      updatePrize(index, { [key]: selected.map((resource) => resource.id) });
+    }
+  };
+
+  const removePrize = (index: number) => {
+    setPrizes((current) => current.filter((_, i) => i !== index));
+  };
+
+  const handleSave = () => {
+    fetcher.submit(
+      { prizes: JSON.stringify(prizes), dailyWinCap, fulfillment },
+      { method: "POST" },
+    );
+  };
+
+  return (
+    <s-page heading="Raffle prizes">
+      <s-button
+        slot="primary-action"
+        variant="primary"
+        onClick={handleSave}
+        {...(isSaving ? { loading: true } : {})}
+      >
+        Save
+      </s-button>
+
+      <s-section heading="Prize table">
+        <s-stack direction="block" gap="base">
+          <s-paragraph>
+            Each play draws one prize from this table. A prize&apos;s chance of
+            being drawn is its weight divided by the total weight of all
+            prizes.
+          </s-paragraph>
+
+          <s-table>
+            <s-table-header-row>
+              <s-table-header>Prize</s-table-header>
+              <s-table-header>Value</s-table-header>
+              <s-table-header>Applies to</s-table-header>
+              <s-table-header>Weight</s-table-header>
+              <s-table-header>Chance</s-table-header>
+              <s-table-header>Actions</s-table-header>
+            </s-table-header-row>
+            <s-table-body>
+              {prizes.map((prize, index) => (
+                <s-table-row key={prize.id}>
+                  <s-table-cell>
+                    <s-select
+                      label="Prize type"
+                      labelAccessibilityVisibility="exclusive"
+                      value={prize.type}
+                      onChange={(e) =>
+                        updatePrize(index, {
+                          type: e.currentTarget.value as RafflePrizeType,
+                        })
+                      }
+                    >
+                      <s-option value="percentage">Percentage off order</s-option>
+                      <s-option value="fixed_amount">Amount off order</s-option>
+                      <s-option value="free_shipping">Free shipping</s-option>
+                      <s-option value="product_percentage">
+                        Percentage off products
+                      </s-option>
+                      <s-option value="none">No prize</s-option>
+                    </s-select>
+                  </s-table-cell>
+                  <s-table-cell>
+                    <s-number-field
+                      label="Value"
+                      labelAccessibilityVisibility="exclusive"
+                      value={String(prize.value)}
+                      suffix={
+                        prize.type === "fixed_amount" ? currencyCode : "%"
+                      }
+                      min={0}
+                      {...(prize.type === "fixed_amount" ? {} : { max: 100 })}
+                      disabled={
+                        prize.type === "none" || prize.type === "free_shipping"
+                      }
+                      onInput={(e) =>
+                        updatePrize(index, {
+                          value: Number(e.currentTarget.value),
+                        })
+                      }
+                    />
+                  </s-table-cell>
+                  <s-table-cell>
+                    {prize.type === "product_percentage" ? (
+                      <s-stack direction="inline" gap="small">
+                        <s-button
+                          variant="tertiary"
+                          onClick={() => pickTargets(index, "product")}
+                        >
+                          {`Products (${prize.productIds?.length ?? 0})`}
+                        </s-button>
+                        <s-button
+                          variant="tertiary"
+                          onClick={() => pickTargets(index, "collection")}
+                        >
+                          {`Collections (${prize.collectionIds?.length ?? 0})`}
+                        </s-button>
+                      </s-stack>
+                    ) : (
+                      <s-text color="subdued">
+                        {prize.type === "free_shipping"
+                          ? "Shipping"
+                          : prize.type === "none"
+                            ? "—"
+                            : "Order"}
+                      </s-text>
+                    )}
+                  </s-table-cell>
+                  <s-table-cell>
+                    <s-number-field
+                      label="Weight"
+                      labelAccessibilityVisibility="exclusive"
+                      value={String(prize.weight)}
+                      min={0}
+                      onInput={(e) =>
+                        updatePrize(index, {
+                          weight: Number(e.currentTarget.value),
+                        })
+                      }
+                    />
+                  </s-table-cell>
+                  <s-table-cell>
+                    <s-text color="subdued">
+                      {totalWeight > 0 && prize.weight > 0
+                        ? `${((prize.weight / totalWeight) * 100).toFixed(1)}%`
+                        : "—"}
+                    </s-text>
+                  </s-table-cell>
+                  <s-table-cell>
+                    <s-button
+                      variant="tertiary"
+                      tone="critical"
+                      accessibilityLabel={`Remove ${describePrize(prize, currencyCode)}`}
+                      disabled={prizes.length === 1}
+                      onClick={() => removePrize(index)}
+                    >
+                      Remove
+                    </s-button>
+                  </s-table-cell>
+                </s-table-row>
+              ))}
+            </s-table-body>
+          </s-table>
+
+          <s-stack direction="inline" gap="base">
+            <s-button onClick={addPrize}>Add prize</s-button>
+          </s-stack>
+        </s-stack>
+      </s-section>
+
+      <s-section heading="Daily limit">
+        <s-number-field
+          label="Prizes per day"
+          details="The most winning plays per day (UTC). Once reached, new players are asked to come back tomorrow. Leave empty for no limit."
+          value={dailyWinCap}
+          min={1}
+          step={1}
+          onInput={(e) => setDailyWinCap(e.currentTarget.value)}
+        />
+      </s-section>
+
+      <s-section heading="Fulfillment">
+        <s-select
+          label="How prizes are applied"
+          details={
+            fulfillment === "code"
+              ? "Each winner gets a single-use discount code that expires at midnight in the shop's timezone, a day after their draw. The code is applied to their cart, and unused codes are deleted once they expire."
+              : "The prize is stored in the shopper's cart and applied automatically at checkout."
+          }
+          value={fulfillment}
+          onChange={(e) =>
+            setFulfillment(e.currentTarget.value as RaffleFulfillmentMode)
+          }
+        >
+          <s-option value="attribute">Automatic discount</s-option>
+          <s-option value="code">Unique discount codes</s-option>
+        </s-select>
+      </s-section>
+
+      <s-section slot="aside" heading="About prizes">
+        <s-paragraph>
+          Saving the table also updates the discount of any campaign that
+          hasn&apos;t ended, so the discount function only honors prizes that
+          are in this table.
+        </s-paragraph>
+        <s-paragraph>
+          Amount off prizes are in your store&apos;s currency and converted at
+          checkout. Product prizes only discount the products you pick, and
+          products in the collections you pick.
+        </s-paragraph>
+        <s-paragraph>
+          Add a &quot;No prize&quot; entry to give shoppers a chance of
+          winning nothing.
+        </s-paragraph>
+        <s-paragraph>
+          Unique discount codes only check the minimum subtotal of your
+          eligibility rules, not customer tags or excluded collections.
+        </s-paragraph>
+      </s-section>
+    </s-page>
+  );
+}
+
+export const headers: HeadersFunction = (headersArgs) => {
+  return boundary.headers(headersArgs);
+};
@@ -20,6 +20,13 @@ export default function App() {
       <s-app-nav>
         <s-link href="/app">Home</s-link>
         <s-link href="/app/faqs">FAQs</s-link>
+        <s-link href="/app/raffle">Raffle</s-link>
+        <s-link href="/app/raffle/prizes">Raffle prizes</s-link>
+        <s-link href="/app/raffle/eligibility">Raffle eligibility</s-link>
+        <s-link href="/app/raffle/analytics">Raffle analytics</s-link>
+        <s-link href="/app/raffle/leads">Raffle leads</s-link>
+        <s-link href="/app/cancellations">Cancellations</s-link>
+        <s-link href="/app/cancellations/reasons">Cancellation reasons</s-link>
         <s-link href="/app/branding">Branding</s-link>
         <s-link href="/app/analytics">Analytics</s-link>
         <s-link href="/app/additional">Additional page</s-link>
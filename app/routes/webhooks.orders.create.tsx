@@ -1,5 +1,7 @@
 import type { ActionFunctionArgs } from "react-router";
 import { authenticate } from "../shopify.server";
+import { recordRaffleRedemption } from "../models/raffle-analytics.server";
+import type { RaffleOrderPayload } from "../models/raffle-analytics.server";
 
 // Type for note_attributes from cart/order
 interface NoteAttribute {
@@ -8,7 +10,7 @@ interface NoteAttribute {
 }
 
 // Type for the orders/create webhook payload
-interface OrderCreatePayload {
+interface OrderCreatePayload extends RaffleOrderPayload {
   id: number;
   admin_graphql_api_id: string;
   note_attributes: NoteAttribute[];
@@ -58,6 +60,15 @@ export const action = async ({ request }: ActionFunctionArgs) => {
   const orderPayload = payload as OrderCreatePayload;
   const noteAttributes = orderPayload.note_attributes || [];
 
+  // Orders placed with a raffle prize count as redemptions in the raffle analytics
+  try {
+    if (await recordRaffleRedemption(shop, orderPayload)) {
+      console.log(`Recorded raffle redemption for order ${orderPayload.admin_graphql_api_id}`);
+    }
+  } catch (error) {
+    console.error("Failed to record raffle redemption:", error);
+  }
+
   // Find the date_of_birth attribute in note_attributes
   const dobAttribute = noteAttributes.find(
     (attr) => attr.name === "date_of_birth"
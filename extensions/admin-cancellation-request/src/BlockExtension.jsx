@@ -0,0 +1,201 @@
+import '@shopify/ui-extensions/preact';
+import { render } from 'preact';
+import { useCallback, useEffect, useState } from 'preact/hooks';
+
+// Served by app/routes/api.cancellation-requests.tsx. Requests to the app's
+// own backend get the admin session token added automatically.
+const CANCELLATION_REQUESTS_URL = 'api/cancellation-requests';
+
+// Matches DECISION_NOTE_MAX_LENGTH in app/models/cancellation-request.server.ts
+const DECISION_NOTE_MAX_LENGTH = 500;
+
+const STATUS_TONES = {
+  pending: 'warning',
+  approved: 'success',
+  denied: 'info',
+};
+
+export default async () => {
+  render(<Extension />, document.body);
+};
+
+/**
+ * Fetches the latest cancellation request and cancellation for an order,
+ * each null when there's none
+ */
+async function fetchCancelStatus(orderId) {
+  const res = await fetch(
+    `${CANCELLATION_REQUESTS_URL}?orderId=${encodeURIComponent(orderId)}`,
+  );
+
+  if (!res.ok) {
+    throw new Error('Network error');
+  }
+
+  return res.json();
+}
+
+/**
+ * Approves or denies a cancellation request. Approving it cancels the order.
+ */
+async function decideCancellationRequest(requestId, decision, note) {
+  const res = await fetch(CANCELLATION_REQUESTS_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ requestId, decision, note }),
+  });
+
+  const result = await res.json().catch(() => null);
+  if (!res.ok || !result?.success) {
+    throw new Error(result?.error || 'Network error');
+  }
+}
+
+function Extension() {
+  const { i18n, data } = shopify;
+  const orderId = data.selected[0]?.id;
+
+  const [request, setRequest] = useState(null);
+  const [cancellation, setCancellation] = useState(null);
+  const [note, setNote] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState(null);
+
+  const loadRequest = useCallback(async () => {
+    try {
+      const status = await fetchCancelStatus(orderId);
+      setRequest(status.request);
+      setCancellation(status.cancellation);
+    } catch (err) {
+      setError(i18n.translate('loadError'));
+    } finally {
+      setLoading(false);
+    }
+  }, [orderId, i18n]);
+
+  useEffect(() => {
+    if (!orderId) return;
+    loadRequest();
+  }, [orderId, loadRequest]);
+
+  const decide = useCallback(
+    async (decision) => {
+      setSubmitting(true);
+      setError(null);
+
+      try {
+        await decideCancellationRequest(request.id, decision, note);
+        await loadRequest();
+      } catch (err) {
+        setError(err.message);
+      } finally {
+        setSubmitting(false);
+      }
+    },
+    [request, note, loadRequest],
+  );
+
+  function handleApprove() {
+    decide('approve');
+  }
+
+  function handleDeny() {
+    decide('deny');
+  }
+
+  function handleNoteInput(event) {
+    setNote(event.currentTarget.value);
+  }
+
+  if (loading) {
+    return (
+      <s-admin-block heading={i18n.translate('heading')}>
+        <s-stack direction="block" gap="base">
+          <s-spinner size="base" />
+          <s-text>{i18n.translate('loadingMessage')}</s-text>
+        </s-stack>
+      </s-admin-block>
+    );
+  }
+
+  // The customer's cancellation failed, or is still running
+  const cancellationBanner = cancellation &&
+    cancellation.status !== 'completed' && (
+      <s-banner tone={cancellation.status === 'failed' ? 'critical' : 'info'}>
+        {i18n.translate(`cancellation.${cancellation.status}`)}
+      </s-banner>
+    );
+
+  // Nothing to show for orders the customer didn't ask to cancel
+  if (!request && !cancellationBanner) {
+    return error ? (
+      <s-admin-block heading={i18n.translate('heading')}>
+        <s-banner tone="critical">{error}</s-banner>
+      </s-admin-block>
+    ) : null;
+  }
+
+  if (!request) {
+    return (
+      <s-admin-block heading={i18n.translate('heading')}>
+        {cancellationBanner}
+      </s-admin-block>
+    );
+  }
+
+  return (
+    <s-admin-block heading={i18n.translate('heading')}>
+      <s-stack direction="block" gap="base">
+        {error && (
+          <s-banner tone="critical" dismissible onDismiss={() => setError(null)}>
+            {error}
+          </s-banner>
+        )}
+
+        {cancellationBanner}
+
+        <s-banner tone={STATUS_TONES[request.status]}>
+          {i18n.translate(request.status)}
+        </s-banner>
+
+        <s-text>{i18n.translate('reason', { reason: request.reasonLabel })}</s-text>
+        {request.note && (
+          <s-text>{i18n.translate('customerNote', { note: request.note })}</s-text>
+        )}
+        {request.decisionNote && (
+          <s-text color="subdued">
+            {i18n.translate('decisionNote', { note: request.decisionNote })}
+          </s-text>
+        )}
+
+        {request.status === 'pending' && (
+          <s-stack direction="block" gap="base">
+            <s-text-area
+              label={i18n.translate('noteLabel')}
+              details={i18n.translate('noteDetails')}
+              value={note}
+              maxLength={DECISION_NOTE_MAX_LENGTH}
+              rows={2}
+              onInput={handleNoteInput}
+            />
+            <s-stack direction="inline" gap="base">
+              <s-button
+                variant="primary"
+                tone="critical"
+                loading={submitting}
+                disabled={submitting}
+                onClick={handleApprove}
+              >
+                {i18n.translate('approve')}
+              </s-button>
+              <s-button disabled={submitting} onClick={handleDeny}>
+                {i18n.translate('deny')}
+              </s-button>
+            </s-stack>
+          </s-stack>
+        )}
+      </s-stack>
+    </s-admin-block>
+  );
+}
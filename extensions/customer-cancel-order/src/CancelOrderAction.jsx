@@ -0,0 +1,226 @@
+import '@shopify/ui-extensions/preact';
+import { render } from 'preact';
+import { useEffect, useState } from 'preact/hooks';
+import { APP_URL } from './appUrl';
+
+// Matches CANCELLATION_REASONS in app/models/order-cancel.server.ts
+const REASONS = ['wrong_item', 'found_cheaper', 'shipping_too_slow', 'other'];
+
+// How long to poll for the outcome of a cancellation that's still running
+const STATUS_POLL_ATTEMPTS = 10;
+const STATUS_POLL_INTERVAL_MS = 2000;
+
+export default async () => {
+  render(<CancelOrderAction />, document.body);
+};
+
+/**
+ * Fetches the refund methods the shop offers, the bonus for store credit,
+ * and the status of the order's cancellation
+ */
+async function fetchCancelStatus(orderId) {
+  const token = await shopify.sessionToken.get();
+
+  const response = await fetch(
+    `${APP_URL}/api/order-cancel?orderId=${encodeURIComponent(orderId)}`,
+    {
+      headers: { Authorization: `Bearer ${token}` },
+    }
+  );
+
+  if (!response.ok) {
+    throw new Error('Network error');
+  }
+
+  return response.json();
+}
+
+/**
+ * Polls until the order's cancellation job finishes. Returns the
+ * cancellation, which is still pending when it took too long.
+ */
+async function waitForCancellation(orderId) {
+  let cancellation = null;
+
+  for (let attempt = 0; attempt < STATUS_POLL_ATTEMPTS; attempt++) {
+    await new Promise((resolve) => setTimeout(resolve, STATUS_POLL_INTERVAL_MS));
+
+    try {
+      ({ cancellation } = await fetchCancelStatus(orderId));
+    } catch (error) {
+      // Try again on the next attempt
+      console.error('Error checking cancellation:', error);
+    }
+
+    if (cancellation && cancellation.status !== 'pending') {
+      break;
+    }
+  }
+
+  return cancellation;
+}
+
+function CancelOrderAction() {
+  const { i18n } = shopify;
+
+  const [reason, setReason] = useState('');
+  const [note, setNote] = useState('');
+  const [refundMethods, setRefundMethods] = useState([]);
+  const [refundMethod, setRefundMethod] = useState('');
+  const [storeCreditBonusPercent, setStoreCreditBonusPercent] = useState(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState(null);
+
+  const needsNote = reason === 'other' && !note.trim();
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const options = await fetchCancelStatus(shopify.orderId);
+        setRefundMethods(options.refundMethods);
+        setRefundMethod(options.refundMethods[0] ?? '');
+        setStoreCreditBonusPercent(options.storeCreditBonusPercent);
+      } catch (error) {
+        // The app refunds the shop's first refund method without a choice
+        console.error('Error loading refund options:', error);
+      }
+    })();
+  }, []);
+
+  function handleReasonChange(event) {
+    setReason(event.currentTarget.values[0] ?? '');
+  }
+
+  function handleNoteInput(event) {
+    setNote(event.currentTarget.value);
+  }
+
+  function refundMethodLabel(value) {
+    if (value === 'store_credit' && storeCreditBonusPercent) {
+      return i18n.translate('cancelAction.refundMethods.store_credit_bonus', {
+        percent: storeCreditBonusPercent,
+      });
+    }
+
+    return i18n.translate(`cancelAction.refundMethods.${value}`);
+  }
+
+  function handleRefundMethodChange(event) {
+    setRefundMethod(event.currentTarget.values[0] ?? '');
+  }
+
+  const handleCancelOrder = async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      // Get session token for authentication
+      const token = await shopify.sessionToken.get();
+
+      // Call our backend endpoint to cancel the order with the reason
+      const response = await fetch(`${APP_URL}/api/order-cancel`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({
+          orderId: shopify.orderId,
+          reason,
+          note,
+          ...(refundMethod ? { refundMethod } : {}),
+        }),
+      });
+
+      const result = await response.json();
+
+      if (response.ok && !result.errors) {
+        let message = 'cancelAction.success';
+
+        if (result.status === 'pending') {
+          // Orders that need the merchant's approval are only requested
+          message = 'cancelAction.requested';
+        } else if (result.status === 'processing') {
+          const cancellation = await waitForCancellation(shopify.orderId);
+
+          if (cancellation?.status === 'failed') {
+            setError(cancellation.error || i18n.translate('cancelAction.error'));
+            return;
+          }
+          if (cancellation?.status !== 'completed') {
+            message = 'cancelAction.processing';
+          }
+        }
+
+        shopify.toast.show(i18n.translate(message));
+        shopify.close();
+      } else {
+        // Policy rejections explain why the order can't be cancelled
+        setError(
+          result.errors?.[0]?.message || i18n.translate('cancelAction.error')
+        );
+      }
+    } catch (error) {
+      console.error('Error cancelling order:', error);
+      setError(i18n.translate('cancelAction.error'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <s-customer-account-action heading={i18n.translate('cancelAction.heading')}>
+      <s-stack direction="block" gap="base">
+        {error && <s-banner tone="critical">{error}</s-banner>}
+
+        <s-choice-list
+          label={i18n.translate('cancelAction.reasonLabel')}
+          values={reason ? [reason] : []}
+          onChange={handleReasonChange}
+        >
+          {REASONS.map((value) => (
+            <s-choice key={value} value={value}>
+              {i18n.translate(`cancelAction.reasons.${value}`)}
+            </s-choice>
+          ))}
+        </s-choice-list>
+
+        <s-text-area
+          label={i18n.translate('cancelAction.noteLabel')}
+          value={note}
+          maxLength={500}
+          rows={3}
+          required={reason === 'other'}
+          onInput={handleNoteInput}
+        />
+
+        {refundMethods.length > 1 && (
+          <s-choice-list
+            label={i18n.translate('cancelAction.refundLabel')}
+            values={refundMethod ? [refundMethod] : []}
+            onChange={handleRefundMethodChange}
+          >
+            {refundMethods.map((value) => (
+              <s-choice key={value} value={value}>
+                {refundMethodLabel(value)}
+              </s-choice>
+            ))}
+          </s-choice-list>
+        )}
+      </s-stack>
+
+      <s-button
+        slot="primary-action"
+        tone="critical"
+        loading={isLoading}
+        disabled={!reason || needsNote || isLoading}
+        onClick={handleCancelOrder}
+      >
+        {i18n.translate('cancelAction.confirm')}
+      </s-button>
+      <s-button slot="secondary-actions" onClick={() => shopify.close()}>
+        {i18n.translate('cancelAction.keep')}
+      </s-button>
+    </s-customer-account-action>
+  );
+}
@@ -1,6 +1,5 @@
 import '@shopify/ui-extensions/preact';
 import { render } from 'preact';
-import { useState, useEffect } from 'preact/hooks';
 
 export default async () => {
   // Check if order is already cancelled before rendering
@@ -39,57 +38,13 @@ export default async () => {
   render(<MenuActionButton isCancelled={isCancelled} />, document.body);
 };
 
+// Clicking the menu item opens CancelOrderAction.jsx, which asks why the
+// order is being cancelled before cancelling it
 function MenuActionButton({ isCancelled }) {
-  const [isLoading, setIsLoading] = useState(false);
-
   // Don't render if order is already cancelled
   if (isCancelled) {
     return null;
   }
 
-  const handleCancelOrder = async () => {
-    setIsLoading(true);
-
-    try {
-      // Get session token for authentication
-      const token = await shopify.sessionToken.get();
-
-      // Get the app URL from extension context
-      const appUrl = 'https://forests-costs-himself-absence.trycloudflare.com';
-
-      // Call our backend endpoint to cancel the order
-      const response = await fetch(`${appUrl}/api/order-cancel`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${token}`,
-        },
-        body: JSON.stringify({
-          orderId: shopify.orderId,
-        }),
-      });
-
-      const result = await response.json();
-
-      if (response.ok && !result.errors) {
-        shopify.toast.show('Order cancelled successfully');
-      } else {
-        const errorMessage =
-          result.errors?.[0]?.message || 'Failed to cancel order';
-        shopify.toast.show(errorMessage);
-      }
-    } catch (error) {
-      console.error('Error cancelling order:', error);
-      shopify.toast.show('An error occurred while cancelling the order');
-    } finally {
-      setIsLoading(false);
-    }
-  };
-
-  return (
-    <s-button loading={isLoading} onClick={handleCancelOrder}>
-      Cancel order
-    </s-button>
-  );
+  return <s-button>{shopify.i18n.translate('cancelOrder')}</s-button>;
 }
-
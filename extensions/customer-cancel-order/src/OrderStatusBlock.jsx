@@ -1,16 +1,119 @@
 import '@shopify/ui-extensions/preact';
-import {render} from "preact";
+import { render } from 'preact';
+import { useEffect, useState } from 'preact/hooks';
+import { APP_URL } from './appUrl';
+
+const STATUS_TONES = {
+  pending: 'info',
+  approved: 'success',
+  denied: 'warning',
+};
+
+const CANCELLATION_TONES = {
+  pending: 'info',
+  failed: 'critical',
+};
+
+// How long to keep checking a cancellation that's still running
+const STATUS_POLL_ATTEMPTS = 10;
+const STATUS_POLL_INTERVAL_MS = 5000;
 
 export default async () => {
-  render(<Extension />, document.body)
+  render(<Extension />, document.body);
+};
+
+/**
+ * Fetches the customer's latest cancellation request and cancellation for
+ * the order, each null when there's none
+ */
+async function fetchCancelStatus(orderId) {
+  const token = await shopify.sessionToken.get();
+
+  const response = await fetch(
+    `${APP_URL}/api/order-cancel?orderId=${encodeURIComponent(orderId)}`,
+    {
+      headers: { Authorization: `Bearer ${token}` },
+    }
+  );
+
+  if (!response.ok) {
+    throw new Error('Network error');
+  }
+
+  return response.json();
 }
 
 function Extension() {
+  const { i18n } = shopify;
+  const orderId = shopify.order.value?.id;
+
+  const [request, setRequest] = useState(null);
+  const [cancellation, setCancellation] = useState(null);
+
+  useEffect(() => {
+    if (!orderId) return;
+
+    let timeout;
+    let attempts = 0;
+
+    const load = async () => {
+      try {
+        const status = await fetchCancelStatus(orderId);
+        setRequest(status.request);
+        setCancellation(status.cancellation);
+
+        // Keep checking until the cancellation's job finishes
+        attempts += 1;
+        if (
+          status.cancellation?.status === 'pending' &&
+          attempts < STATUS_POLL_ATTEMPTS
+        ) {
+          timeout = setTimeout(load, STATUS_POLL_INTERVAL_MS);
+        }
+      } catch (error) {
+        // Nothing to show without the request
+        console.error('Error loading cancellation request:', error);
+      }
+    };
+
+    load();
+    return () => clearTimeout(timeout);
+  }, [orderId]);
+
+  // The order's page already shows it's cancelled once it is
+  if (cancellation && cancellation.status !== 'completed') {
+    return (
+      <s-banner
+        heading={i18n.translate('cancellationStatus.heading')}
+        tone={CANCELLATION_TONES[cancellation.status]}
+      >
+        <s-text>
+          {i18n.translate(`cancellationStatus.${cancellation.status}`)}
+        </s-text>
+      </s-banner>
+    );
+  }
+
+  // Most orders were never asked to be cancelled
+  if (!request) {
+    return null;
+  }
+
   return (
-    <s-banner>
-      <s-text>
-        {shopify.i18n.translate("earnPoints")}
-      </s-text>
+    <s-banner
+      heading={i18n.translate('requestStatus.heading')}
+      tone={STATUS_TONES[request.status]}
+    >
+      <s-stack direction="block" gap="small-200">
+        <s-text>{i18n.translate(`requestStatus.${request.status}`)}</s-text>
+        {request.decisionNote && (
+          <s-text>
+            {i18n.translate('requestStatus.note', {
+              note: request.decisionNote,
+            })}
+          </s-text>
+        )}
+      </s-stack>
     </s-banner>
   );
-}
\ No newline at end of file
+}
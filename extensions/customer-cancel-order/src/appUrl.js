@@ -0,0 +1,3 @@
+// The app's URL, for calls to its backend. It changes with each
+// `shopify app dev` tunnel.
+export const APP_URL = 'https://forests-costs-himself-absence.trycloudflare.com';
@@ -0,0 +1,125 @@
+import '@shopify/ui-extensions/preact';
+import { render } from "preact";
+import { useEffect, useState } from "preact/hooks";
+import { isRaffleDiscountApplied } from "./raffle_discount";
+
+// The cart attribute raffle.js stores the signed raffle token in
+const RAFFLE_CART_ATTRIBUTE = "raffle_discount_amount";
+
+// Export the extension
+export default async () => {
+  render(<Extension />, document.body);
+};
+
+/**
+ * Read the payload of a raffle token. The signature is only checked by
+ * the discount function, so the payload is just used for display.
+ */
+function decodeRaffleToken(token) {
+  const [payload] = token.split(".");
+  if (!payload) return null;
+
+  try {
+    const base64 = payload.replace(/-/g, "+").replace(/_/g, "/");
+    const padded = base64.padEnd(Math.ceil(base64.length / 4) * 4, "=");
+    const decoded = JSON.parse(atob(padded));
+
+    if (!decoded?.prize || typeof decoded.exp !== "number") return null;
+    return decoded;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The discounts applied to the cart and its lines
+ */
+function getDiscountAllocations() {
+  return [
+    ...shopify.discountAllocations.value,
+    ...shopify.lines.value.flatMap((line) => line.discountAllocations),
+  ];
+}
+
+/**
+ * The current time, updated every minute for the countdown
+ */
+function useNow() {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 60 * 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  return now;
+}
+
+function describePrize(prize) {
+  const { translate } = shopify.i18n;
+
+  switch (prize.type) {
+    case "percentage":
+      return translate("prize.percentage", { value: prize.value });
+    case "product_percentage":
+      return translate("prize.productPercentage", { value: prize.value });
+    case "fixed_amount":
+      return translate("prize.fixedAmount");
+    case "free_shipping":
+      return translate("prize.freeShipping");
+    default:
+      return null;
+  }
+}
+
+function Extension() {
+  const now = useNow();
+  const { translate } = shopify.i18n;
+
+  const token = shopify.attributes.value.find(
+    (attribute) => attribute.key === RAFFLE_CART_ATTRIBUTE,
+  )?.value;
+  const payload = token ? decodeRaffleToken(token) : null;
+  const prize = payload ? describePrize(payload.prize) : null;
+
+  if (!payload || !prize) {
+    return null;
+  }
+
+  const remainingMinutes = Math.floor((payload.exp * 1000 - now) / 60000);
+
+  if (remainingMinutes <= 0) {
+    return (
+      <s-banner heading={translate("expired.heading")} tone="warning">
+        <s-text>{translate("expired.message")}</s-text>
+      </s-banner>
+    );
+  }
+
+  // Free shipping only applies once a delivery option is chosen, so it
+  // can't be checked against the cart
+  if (
+    payload.prize.type !== "free_shipping" &&
+    !isRaffleDiscountApplied(getDiscountAllocations(), payload)
+  ) {
+    return (
+      <s-banner heading={translate("notQualified.heading")} tone="warning">
+        <s-text>{translate("notQualified.message", { prize })}</s-text>
+      </s-banner>
+    );
+  }
+
+  return (
+    <s-banner
+      heading={String(translate("won.heading", { prize }))}
+      tone="success"
+    >
+      <s-text>
+        {translate("won.countdown", {
+          hours: Math.floor(remainingMinutes / 60),
+          minutes: remainingMinutes % 60,
+        })}
+      </s-text>
+    </s-banner>
+  );
+}
@@ -0,0 +1,23 @@
+/**
+ * Whether the raffle discount applies to one of the discount allocations.
+ * The discount function shows the prize's discount under the message the
+ * app put in the raffle token, which checkout uses as the allocation's
+ * title.
+ *
+ * Tokens issued before they carried the message can't be checked, so
+ * they're taken as applied.
+ *
+ * @param {{type: string, title?: string}[]} allocations
+ * @param {{prize: {type: string}, message?: string}} payload The raffle token's payload
+ * @returns {boolean}
+ */
+export function isRaffleDiscountApplied(allocations, payload) {
+  if (typeof payload.message !== "string") {
+    return true;
+  }
+
+  return allocations.some(
+    (allocation) =>
+      allocation.type === "automatic" && allocation.title === payload.message,
+  );
+}
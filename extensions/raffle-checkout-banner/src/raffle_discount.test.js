@@ -0,0 +1,49 @@
+import {describe, it, expect} from "vitest";
+
+import {isRaffleDiscountApplied} from "./raffle_discount";
+
+describe("isRaffleDiscountApplied", () => {
+  const payload = {
+    prize: {id: "percentage-7", type: "percentage", value: 7},
+    message: "7% RAFFLE DISCOUNT",
+    exp: 1900000000,
+  };
+
+  it("finds the raffle discount by the function's message", () => {
+    expect(
+      isRaffleDiscountApplied(
+        [
+          {type: "automatic", title: "Spring sale"},
+          {type: "automatic", title: "7% RAFFLE DISCOUNT"},
+        ],
+        payload,
+      ),
+    ).toBe(true);
+  });
+
+  it("finds raffle discounts shown under the shop's own message", () => {
+    expect(
+      isRaffleDiscountApplied(
+        [{type: "automatic", title: "7% SPRING PRIZE"}],
+        {...payload, message: "7% SPRING PRIZE"},
+      ),
+    ).toBe(true);
+  });
+
+  it("doesn't mistake other discounts for the raffle discount", () => {
+    expect(
+      isRaffleDiscountApplied(
+        [
+          {type: "automatic", title: "Raffle Discount: Spring"},
+          {type: "code", title: "7% RAFFLE DISCOUNT"},
+        ],
+        payload,
+      ),
+    ).toBe(false);
+    expect(isRaffleDiscountApplied([], payload)).toBe(false);
+  });
+
+  it("takes tokens without a message as applied", () => {
+    expect(isRaffleDiscountApplied([], {prize: payload.prize})).toBe(true);
+  });
+});
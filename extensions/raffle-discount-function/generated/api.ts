@@ -3069,12 +3069,18 @@ export enum WeightUnit {
   Pounds = 'POUNDS'
 }
 
-export type DeliveryInputVariables = Exact<{ [key: string]: never; }>;
+export type DeliveryInputVariables = Exact<{
+  customerTags?: Array<Scalars['String']['input']> | Scalars['String']['input'];
+}>;
 
 
-export type DeliveryInput = { __typename?: 'Input', cart: { __typename?: 'Cart', deliveryGroups: Array<{ __typename?: 'CartDeliveryGroup', id: string }> }, discount: { __typename?: 'Discount', discountClasses: Array<DiscountClass> } };
+export type DeliveryInput = { __typename?: 'Input', presentmentCurrencyRate: any, cart: { __typename?: 'Cart', attribute?: { __typename?: 'Attribute', key: string, value?: string | null } | null, cost: { __typename?: 'CartCost', subtotalAmount: { __typename?: 'MoneyV2', amount: any } }, buyerIdentity?: { __typename?: 'BuyerIdentity', customer?: { __typename?: 'Customer', id: string, hasAnyTag: boolean } | null } | null, deliveryGroups: Array<{ __typename?: 'CartDeliveryGroup', id: string }> }, discount: { __typename?: 'Discount', discountClasses: Array<DiscountClass>, metafield?: { __typename?: 'Metafield', jsonValue: any } | null }, shop: { __typename?: 'Shop', localTime: { __typename?: 'LocalTime', date: any } } };
 
-export type CartInputVariables = Exact<{ [key: string]: never; }>;
+export type CartInputVariables = Exact<{
+  collectionIds?: Array<Scalars['ID']['input']> | Scalars['ID']['input'];
+  customerTags?: Array<Scalars['String']['input']> | Scalars['String']['input'];
+  excludedCollectionIds?: Array<Scalars['ID']['input']> | Scalars['ID']['input'];
+}>;
 
 
-export type CartInput = { __typename?: 'Input', cart: { __typename?: 'Cart', attribute?: { __typename?: 'Attribute', key: string, value?: string | null } | null, lines: Array<{ __typename?: 'CartLine', id: string }> }, discount: { __typename?: 'Discount', discountClasses: Array<DiscountClass> } };
+export type CartInput = { __typename?: 'Input', presentmentCurrencyRate: any, cart: { __typename?: 'Cart', attribute?: { __typename?: 'Attribute', key: string, value?: string | null } | null, cost: { __typename?: 'CartCost', subtotalAmount: { __typename?: 'MoneyV2', amount: any } }, buyerIdentity?: { __typename?: 'BuyerIdentity', customer?: { __typename?: 'Customer', id: string, hasAnyTag: boolean } | null } | null, lines: Array<{ __typename?: 'CartLine', id: string, merchandise: { __typename: 'CustomProduct' } | { __typename: 'ProductVariant', product: { __typename?: 'Product', id: string, inExcludedCollection: boolean, inCollections: Array<{ __typename?: 'CollectionMembership', collectionId: string, isMember: boolean }> } } }> }, discount: { __typename?: 'Discount', discountClasses: Array<DiscountClass>, metafield?: { __typename?: 'Metafield', jsonValue: any } | null }, shop: { __typename?: 'Shop', localTime: { __typename?: 'LocalTime', date: any } } };
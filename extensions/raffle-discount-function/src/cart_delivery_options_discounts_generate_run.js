@@ -2,6 +2,8 @@ import {
   DeliveryDiscountSelectionStrategy,
   DiscountClass,
 } from "../generated/api";
+import {isCartEligible} from "./raffle_eligibility";
+import {getRaffleDiscountMessage, getRafflePrize} from "./raffle_prize";
 
 /**
   * @typedef {import("../generated/api").DeliveryInput} RunInput
@@ -14,11 +16,6 @@ import {
   */
 
 export function cartDeliveryOptionsDiscountsGenerateRun(input) {
-  const firstDeliveryGroup = input.cart.deliveryGroups[0];
-  if (!firstDeliveryGroup) {
-    throw new Error("No delivery groups found");
-  }
-
   const hasShippingDiscountClass = input.discount.discountClasses.includes(
     DiscountClass.Shipping,
   );
@@ -27,20 +24,37 @@ export function cartDeliveryOptionsDiscountsGenerateRun(input) {
     return {operations: []};
   }
 
+  // Only carts that won a free shipping prize get their delivery discounted
+  const configuration = input.discount.metafield?.jsonValue;
+  const prize = getRafflePrize(
+    input.cart.attribute?.value,
+    configuration,
+    input.shop.localTime.date,
+    input.cart.buyerIdentity?.customer?.id,
+  );
+
+  // Carts without anything to ship, like gift card only carts, have no
+  // delivery groups to discount
+  if (
+    prize?.type !== "free_shipping" ||
+    input.cart.deliveryGroups.length === 0 ||
+    !isCartEligible(input.cart, configuration, input.presentmentCurrencyRate)
+  ) {
+    return {operations: []};
+  }
+
   return {
     operations: [
       {
         deliveryDiscountsAdd: {
           candidates: [
             {
-              message: "FREE DELIVERY",
-              targets: [
-                {
-                  deliveryGroup: {
-                    id: firstDeliveryGroup.id,
-                  },
+              message: getRaffleDiscountMessage(prize, configuration),
+              targets: input.cart.deliveryGroups.map((group) => ({
+                deliveryGroup: {
+                  id: group.id,
                 },
-              ],
+              })),
               value: {
                 percentage: {
                   value: 100,
@@ -53,4 +67,4 @@ export function cartDeliveryOptionsDiscountsGenerateRun(input) {
       },
     ],
   };
-}
\ No newline at end of file
+}
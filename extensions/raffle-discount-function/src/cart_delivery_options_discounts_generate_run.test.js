@@ -1,3 +1,5 @@
+import {Buffer} from "node:buffer";
+import {createHmac} from "node:crypto";
 import {describe, it, expect} from "vitest";
 
 import {cartDeliveryOptionsDiscountsGenerateRun} from "./cart_delivery_options_discounts_generate_run";
@@ -11,9 +13,37 @@ import {
   * @typedef {import("../generated/api").DeliveryInput} DeliveryInput
   */
 
+const SECRET = "test-signing-secret";
+
+function createToken(payload, secret = SECRET) {
+  const encodedPayload = Buffer.from(JSON.stringify(payload)).toString(
+    "base64url",
+  );
+  const signature = createHmac("sha256", secret)
+    .update(encodedPayload)
+    .digest("hex");
+  return `${encodedPayload}.${signature}`;
+}
+
 describe("cartDeliveryOptionsDiscountsGenerateRun", () => {
+  const prize = {id: "free-shipping", type: "free_shipping", value: 0};
+
   const baseInput = {
     cart: {
+      attribute: {
+        key: "raffle_discount_amount",
+        value: createToken({
+          prize,
+          shop: "example.myshopify.com",
+          campaign: 1,
+          cart: "cart-token",
+          exp: 1900000000,
+        }),
+      },
+      cost: {
+        subtotalAmount: {amount: "100.0"},
+      },
+      buyerIdentity: null,
       deliveryGroups: [
         {
           id: "gid://shopify/DeliveryGroup/0",
@@ -22,13 +52,19 @@ describe("cartDeliveryOptionsDiscountsGenerateRun", () => {
     },
     discount: {
       discountClasses: [],
+      metafield: {
+        jsonValue: {signingSecret: SECRET, campaignId: 1, prizes: [prize]},
+      },
     },
+    presentmentCurrencyRate: "1.0",
+    shop: {localTime: {date: "2026-10-19"}},
   };
 
   it("returns empty operations when no discount classes are present", () => {
     const input = {
       ...baseInput,
       discount: {
+        ...baseInput.discount,
         discountClasses: [],
       },
     };
@@ -37,10 +73,11 @@ describe("cartDeliveryOptionsDiscountsGenerateRun", () => {
     expect(result.operations).toHaveLength(0);
   });
 
-  it("returns delivery discount when shipping discount class is present", () => {
+  it("returns free delivery for carts that won a free shipping prize", () => {
     const input = {
       ...baseInput,
       discount: {
+        ...baseInput.discount,
         discountClasses: [DiscountClass.Shipping],
       },
     };
@@ -51,7 +88,7 @@ describe("cartDeliveryOptionsDiscountsGenerateRun", () => {
       deliveryDiscountsAdd: {
         candidates: [
           {
-            message: "FREE DELIVERY",
+            message: "FREE SHIPPING",
             targets: [
               {
                 deliveryGroup: {
@@ -71,18 +108,170 @@ describe("cartDeliveryOptionsDiscountsGenerateRun", () => {
     });
   });
 
-  it("throws error when no delivery groups are present", () => {
+  it("discounts every delivery group of a free shipping cart", () => {
+    const input = {
+      ...baseInput,
+      cart: {
+        ...baseInput.cart,
+        deliveryGroups: [
+          {id: "gid://shopify/DeliveryGroup/0"},
+          {id: "gid://shopify/DeliveryGroup/1"},
+        ],
+      },
+      discount: {
+        ...baseInput.discount,
+        discountClasses: [DiscountClass.Shipping],
+      },
+    };
+
+    const result = cartDeliveryOptionsDiscountsGenerateRun(input);
+    expect(result.operations[0].deliveryDiscountsAdd.candidates[0].targets).toEqual([
+      {deliveryGroup: {id: "gid://shopify/DeliveryGroup/0"}},
+      {deliveryGroup: {id: "gid://shopify/DeliveryGroup/1"}},
+    ]);
+  });
+
+  it("returns empty operations when the cart has no raffle token", () => {
+    const input = {
+      ...baseInput,
+      cart: {
+        ...baseInput.cart,
+        attribute: null,
+      },
+      discount: {
+        ...baseInput.discount,
+        discountClasses: [DiscountClass.Shipping],
+      },
+    };
+
+    const result = cartDeliveryOptionsDiscountsGenerateRun(input);
+    expect(result.operations).toHaveLength(0);
+  });
+
+  it("returns empty operations when the cart won another prize", () => {
+    const percentagePrize = {id: "percentage-10", type: "percentage", value: 10};
+    const input = {
+      ...baseInput,
+      cart: {
+        ...baseInput.cart,
+        attribute: {
+          key: "raffle_discount_amount",
+          value: createToken({
+            prize: percentagePrize,
+            shop: "example.myshopify.com",
+            campaign: 1,
+            cart: "cart-token",
+            exp: 1900000000,
+          }),
+        },
+      },
+      discount: {
+        discountClasses: [DiscountClass.Shipping],
+        metafield: {
+          jsonValue: {
+            signingSecret: SECRET,
+            campaignId: 1,
+            prizes: [prize, percentagePrize],
+          },
+        },
+      },
+    };
+
+    const result = cartDeliveryOptionsDiscountsGenerateRun(input);
+    expect(result.operations).toHaveLength(0);
+  });
+
+  it("returns empty operations for a token signed with another secret", () => {
+    const input = {
+      ...baseInput,
+      cart: {
+        ...baseInput.cart,
+        attribute: {
+          key: "raffle_discount_amount",
+          value: createToken(
+            {
+              prize,
+              shop: "example.myshopify.com",
+              campaign: 1,
+              cart: "cart-token",
+              exp: 1900000000,
+            },
+            "other-secret",
+          ),
+        },
+      },
+      discount: {
+        ...baseInput.discount,
+        discountClasses: [DiscountClass.Shipping],
+      },
+    };
+
+    const result = cartDeliveryOptionsDiscountsGenerateRun(input);
+    expect(result.operations).toHaveLength(0);
+  });
+
+  it("returns empty operations when free shipping was removed from the prize table", () => {
+    const input = {
+      ...baseInput,
+      discount: {
+        discountClasses: [DiscountClass.Shipping],
+        metafield: {
+          jsonValue: {signingSecret: SECRET, campaignId: 1, prizes: []},
+        },
+      },
+    };
+
+    const result = cartDeliveryOptionsDiscountsGenerateRun(input);
+    expect(result.operations).toHaveLength(0);
+  });
+
+  it("returns empty operations when no delivery groups are present", () => {
     const input = {
+      ...baseInput,
       cart: {
+        ...baseInput.cart,
         deliveryGroups: [],
       },
       discount: {
+        ...baseInput.discount,
         discountClasses: [DiscountClass.Shipping],
       },
     };
 
-    expect(() => cartDeliveryOptionsDiscountsGenerateRun(input)).toThrow(
-      "No delivery groups found",
-    );
+    const result = cartDeliveryOptionsDiscountsGenerateRun(input);
+    expect(result.operations).toHaveLength(0);
+  });
+
+  it("returns empty operations below the minimum subtotal", () => {
+    const input = {
+      ...baseInput,
+      discount: {
+        discountClasses: [DiscountClass.Shipping],
+        metafield: {
+          jsonValue: {
+            ...baseInput.discount.metafield.jsonValue,
+            minimumSubtotal: 80,
+          },
+        },
+      },
+      presentmentCurrencyRate: "1.5",
+    };
+
+    const result = cartDeliveryOptionsDiscountsGenerateRun(input);
+    expect(result.operations).toHaveLength(0);
+  });
+
+  it("returns empty operations once the prize expired", () => {
+    const input = {
+      ...baseInput,
+      discount: {
+        ...baseInput.discount,
+        discountClasses: [DiscountClass.Shipping],
+      },
+      shop: {localTime: {date: "2030-03-18"}},
+    };
+
+    const result = cartDeliveryOptionsDiscountsGenerateRun(input);
+    expect(result.operations).toHaveLength(0);
   });
-});
\ No newline at end of file
+});
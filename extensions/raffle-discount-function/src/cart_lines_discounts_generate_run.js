@@ -1,73 +1,202 @@
 import {
   DiscountClass,
   OrderDiscountSelectionStrategy,
+  ProductDiscountSelectionStrategy,
 } from "../generated/api";
+import {getExcludedCartLineIds, isCartEligible} from "./raffle_eligibility";
+import {getRaffleDiscountMessage, getRafflePrize} from "./raffle_prize";
 
 /**
  * @typedef {import("../generated/api").CartInput} RunInput
  * @typedef {import("../generated/api").CartLinesDiscountsGenerateRunResult} CartLinesDiscountsGenerateRunResult
+ * @typedef {import("./raffle_prize").RafflePrize} RafflePrize
  */
 
 /**
- * @param {RunInput} input
- * @returns {CartLinesDiscountsGenerateRunResult}
+ * @param {number} percentage
+ * @returns {boolean}
  */
+function isValidPercentage(percentage) {
+  return !isNaN(percentage) && percentage > 0 && percentage <= 100;
+}
 
-export function cartLinesDiscountsGenerateRun(input) {
-  // Check if we have the ORDER discount class
-  const hasOrderDiscountClass = input.discount.discountClasses.includes(
-    DiscountClass.Order,
-  );
-
-  if (!hasOrderDiscountClass) {
-    return { operations: [] };
+/**
+ * Whether a cart line is one of the products a product prize discounts,
+ * directly or through one of its collections.
+ *
+ * @param {RunInput["cart"]["lines"][number]} line
+ * @param {RafflePrize} prize
+ * @returns {boolean}
+ */
+function isPrizeLine(line, prize) {
+  if (line.merchandise.__typename !== "ProductVariant") {
+    return false;
   }
 
-  // Get the raffle_discount_amount from cart attributes
-  const raffleDiscountAttribute = input.cart.attribute;
+  const {product} = line.merchandise;
+  const productIds = prize.productIds ?? [];
+  const collectionIds = prize.collectionIds ?? [];
 
-  // If no attribute or no value, return no discount
-  if (!raffleDiscountAttribute || !raffleDiscountAttribute.value) {
-    return { operations: [] };
+  return (
+    productIds.includes(product.id) ||
+    product.inCollections.some(
+      (membership) =>
+        membership.isMember && collectionIds.includes(membership.collectionId),
+    )
+  );
+}
+
+/**
+ * @param {RunInput} input
+ * @param {RafflePrize} prize
+ * @param {string[]} excludedCartLineIds
+ * @returns {CartLinesDiscountsGenerateRunResult}
+ */
+function orderDiscount(input, prize, excludedCartLineIds) {
+  // Nothing is left to discount when every line is excluded
+  if (excludedCartLineIds.length === input.cart.lines.length) {
+    return {operations: []};
   }
 
-  // Parse the discount percentage value
-  const discountPercentage = parseFloat(raffleDiscountAttribute.value);
+  const value = Number(prize.value);
+  const message = getRaffleDiscountMessage(
+    prize,
+    input.discount.metafield?.jsonValue,
+  );
+  let candidate;
 
-  // Validate the discount is between 5 and 10
-  if (
-    isNaN(discountPercentage) ||
-    discountPercentage < 5 ||
-    discountPercentage > 10
-  ) {
-    return { operations: [] };
+  if (prize.type === "percentage") {
+    if (!isValidPercentage(value)) {
+      return {operations: []};
+    }
+    candidate = {
+      message,
+      value: {percentage: {value}},
+    };
+  } else {
+    if (isNaN(value) || value <= 0) {
+      return {operations: []};
+    }
+    // Fixed amounts are in the shop's currency, so convert them to the
+    // currency the buyer is checking out in
+    const amount = value * Number(input.presentmentCurrencyRate ?? 1);
+    candidate = {
+      message,
+      value: {fixedAmount: {amount}},
+    };
   }
 
-  // Apply the discount as an order discount
   return {
     operations: [
       {
         orderDiscountsAdd: {
           candidates: [
             {
-              message: `${discountPercentage}% RAFFLE DISCOUNT`,
+              ...candidate,
               targets: [
                 {
                   orderSubtotal: {
-                    excludedCartLineIds: [],
+                    excludedCartLineIds,
                   },
                 },
               ],
+            },
+          ],
+          selectionStrategy: OrderDiscountSelectionStrategy.First,
+        },
+      },
+    ],
+  };
+}
+
+/**
+ * @param {RunInput} input
+ * @param {RafflePrize} prize
+ * @param {string[]} excludedCartLineIds
+ * @returns {CartLinesDiscountsGenerateRunResult}
+ */
+function productDiscount(input, prize, excludedCartLineIds) {
+  const value = Number(prize.value);
+  if (!isValidPercentage(value)) {
+    return {operations: []};
+  }
+
+  const message = getRaffleDiscountMessage(
+    prize,
+    input.discount.metafield?.jsonValue,
+  );
+  const targets = input.cart.lines
+    .filter(
+      (line) =>
+        isPrizeLine(line, prize) && !excludedCartLineIds.includes(line.id),
+    )
+    .map((line) => ({cartLine: {id: line.id}}));
+
+  if (targets.length === 0) {
+    return {operations: []};
+  }
+
+  return {
+    operations: [
+      {
+        productDiscountsAdd: {
+          candidates: [
+            {
+              message,
+              targets,
               value: {
                 percentage: {
-                  value: discountPercentage,
+                  value,
                 },
               },
             },
           ],
-          selectionStrategy: OrderDiscountSelectionStrategy.First,
+          selectionStrategy: ProductDiscountSelectionStrategy.First,
         },
       },
     ],
   };
 }
+
+/**
+ * @param {RunInput} input
+ * @returns {CartLinesDiscountsGenerateRunResult}
+ */
+
+export function cartLinesDiscountsGenerateRun(input) {
+  // The raffle_discount_amount cart attribute holds the signed raffle token,
+  // and the discount's configuration metafield holds the signing secret and
+  // the prize table the token's prize must still be part of
+  const configuration = input.discount.metafield?.jsonValue;
+  const prize = getRafflePrize(
+    input.cart.attribute?.value,
+    configuration,
+    input.shop.localTime.date,
+    input.cart.buyerIdentity?.customer?.id,
+  );
+
+  if (
+    !prize ||
+    !isCartEligible(input.cart, configuration, input.presentmentCurrencyRate)
+  ) {
+    return {operations: []};
+  }
+
+  const {discountClasses} = input.discount;
+  const excludedCartLineIds = getExcludedCartLineIds(input.cart.lines);
+
+  if (prize.type === "percentage" || prize.type === "fixed_amount") {
+    return discountClasses.includes(DiscountClass.Order)
+      ? orderDiscount(input, prize, excludedCartLineIds)
+      : {operations: []};
+  }
+
+  if (prize.type === "product_percentage") {
+    return discountClasses.includes(DiscountClass.Product)
+      ? productDiscount(input, prize, excludedCartLineIds)
+      : {operations: []};
+  }
+
+  // Free shipping prizes are applied by the delivery target
+  return {operations: []};
+}
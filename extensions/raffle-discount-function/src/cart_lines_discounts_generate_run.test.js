@@ -1,3 +1,5 @@
+import {Buffer} from "node:buffer";
+import {createHmac} from "node:crypto";
 import {describe, it, expect} from "vitest";
 
 import {cartLinesDiscountsGenerateRun} from "./cart_lines_discounts_generate_run";
@@ -11,52 +13,110 @@ import {
   * @typedef {import("../generated/api").CartLinesDiscountsGenerateRunResult} CartLinesDiscountsGenerateRunResult
   */
 
+const SECRET = "test-signing-secret";
+
+function createToken(payload, secret = SECRET) {
+  const encodedPayload = Buffer.from(JSON.stringify(payload)).toString(
+    "base64url",
+  );
+  const signature = createHmac("sha256", secret)
+    .update(encodedPayload)
+    .digest("hex");
+  return `${encodedPayload}.${signature}`;
+}
+
 describe("cartLinesDiscountsGenerateRun", () => {
+  const prize = {id: "percentage-7", type: "percentage", value: 7};
+
+  const payload = {
+    prize,
+    shop: "example.myshopify.com",
+    campaign: 1,
+    cart: "cart-token",
+    exp: 1900000000,
+  };
+
   const baseInput = {
     cart: {
+      attribute: {
+        key: "raffle_discount_amount",
+        value: createToken(payload),
+      },
+      cost: {
+        subtotalAmount: {amount: "100.0"},
+      },
+      buyerIdentity: null,
       lines: [
         {
           id: "gid://shopify/CartLine/0",
-          cost: {
-            subtotalAmount: {
-              amount: 100,
+          merchandise: {
+            __typename: "ProductVariant",
+            product: {
+              id: "gid://shopify/Product/1",
+              inCollections: [],
+              inExcludedCollection: false,
             },
           },
         },
       ],
     },
     discount: {
-      discountClasses: [],
+      discountClasses: [DiscountClass.Order],
+      metafield: {
+        jsonValue: {signingSecret: SECRET, campaignId: 1, prizes: [prize]},
+      },
     },
+    presentmentCurrencyRate: "1.0",
+    shop: {localTime: {date: "2026-10-19"}},
   };
 
-  it("returns empty operations when no discount classes are present", () => {
-    const input = {
+  /**
+   * Builds an input whose raffle token and prize table hold the given prize
+   */
+  function inputForPrize(wonPrize, discountClasses, cart = baseInput.cart) {
+    return {
       ...baseInput,
+      cart: {
+        ...cart,
+        attribute: {
+          key: "raffle_discount_amount",
+          value: createToken({...payload, prize: wonPrize}),
+        },
+      },
       discount: {
-        discountClasses: [],
+        discountClasses,
+        metafield: {
+          jsonValue: {
+            signingSecret: SECRET,
+            campaignId: 1,
+            prizes: [wonPrize],
+          },
+        },
       },
     };
+  }
 
-    const result = cartLinesDiscountsGenerateRun(input);
-    expect(result.operations).toHaveLength(0);
-  });
-
-  it("returns only order discount when only order discount class is present", () => {
+  it("returns empty operations when no discount classes are present", () => {
     const input = {
       ...baseInput,
       discount: {
-        discountClasses: [DiscountClass.Order],
+        ...baseInput.discount,
+        discountClasses: [],
       },
     };
 
     const result = cartLinesDiscountsGenerateRun(input);
+    expect(result.operations).toHaveLength(0);
+  });
+
+  it("returns the raffle order discount for a correctly signed token", () => {
+    const result = cartLinesDiscountsGenerateRun(baseInput);
     expect(result.operations).toHaveLength(1);
     expect(result.operations[0]).toMatchObject({
       orderDiscountsAdd: {
         candidates: [
           {
-            message: "10% OFF ORDER",
+            message: "7% RAFFLE DISCOUNT",
             targets: [
               {
                 orderSubtotal: {
@@ -66,7 +126,7 @@ describe("cartLinesDiscountsGenerateRun", () => {
             ],
             value: {
               percentage: {
-                value: 10,
+                value: 7,
               },
             },
           },
@@ -76,94 +136,377 @@ describe("cartLinesDiscountsGenerateRun", () => {
     });
   });
 
-  it("returns only product discount when only product discount class is present", () => {
+  it("shows the merchant's discount message", () => {
     const input = {
       ...baseInput,
       discount: {
-        discountClasses: [DiscountClass.Product],
+        ...baseInput.discount,
+        metafield: {
+          jsonValue: {
+            ...baseInput.discount.metafield.jsonValue,
+            discountMessage: " LUCKY DRAW ",
+          },
+        },
       },
     };
 
     const result = cartLinesDiscountsGenerateRun(input);
-    expect(result.operations).toHaveLength(1);
-    expect(result.operations[0]).toMatchObject({
-      productDiscountsAdd: {
-        candidates: [
-          {
-            message: "20% OFF PRODUCT",
-            targets: [
-              {
-                cartLine: {
-                  id: "gid://shopify/CartLine/0",
-                },
-              },
-            ],
-            value: {
-              percentage: {
-                value: 20,
-              },
-            },
+    expect(result.operations[0].orderDiscountsAdd.candidates[0].message).toBe(
+      "7% LUCKY DRAW",
+    );
+  });
+
+  it("falls back to the default message when the message is blank", () => {
+    const input = {
+      ...baseInput,
+      discount: {
+        ...baseInput.discount,
+        metafield: {
+          jsonValue: {
+            ...baseInput.discount.metafield.jsonValue,
+            discountMessage: "  ",
           },
-        ],
-        selectionStrategy: ProductDiscountSelectionStrategy.First,
+        },
       },
-    });
+    };
+
+    const result = cartLinesDiscountsGenerateRun(input);
+    expect(result.operations[0].orderDiscountsAdd.candidates[0].message).toBe(
+      "7% RAFFLE DISCOUNT",
+    );
   });
 
-  it("returns both discounts when both discount classes are present", () => {
+  it("returns empty operations when the raffle attribute is missing", () => {
+    const input = {
+      ...baseInput,
+      cart: {
+        ...baseInput.cart,
+        attribute: null,
+      },
+    };
+
+    const result = cartLinesDiscountsGenerateRun(input);
+    expect(result.operations).toHaveLength(0);
+  });
+
+  it("returns empty operations for a plain percentage attribute", () => {
+    const input = {
+      ...baseInput,
+      cart: {
+        ...baseInput.cart,
+        attribute: {key: "raffle_discount_amount", value: "10"},
+      },
+    };
+
+    const result = cartLinesDiscountsGenerateRun(input);
+    expect(result.operations).toHaveLength(0);
+  });
+
+  it("returns empty operations for a token signed with another secret", () => {
+    const input = {
+      ...baseInput,
+      cart: {
+        ...baseInput.cart,
+        attribute: {
+          key: "raffle_discount_amount",
+          value: createToken(payload, "other-secret"),
+        },
+      },
+    };
+
+    const result = cartLinesDiscountsGenerateRun(input);
+    expect(result.operations).toHaveLength(0);
+  });
+
+  it("returns empty operations when the discount has no signing secret", () => {
+    const input = {
+      ...baseInput,
+      discount: {
+        ...baseInput.discount,
+        metafield: null,
+      },
+    };
+
+    const result = cartLinesDiscountsGenerateRun(input);
+    expect(result.operations).toHaveLength(0);
+  });
+
+  it("returns empty operations when the prize is no longer in the prize table", () => {
     const input = {
       ...baseInput,
       discount: {
-        discountClasses: [DiscountClass.Order, DiscountClass.Product],
+        ...baseInput.discount,
+        metafield: {
+          jsonValue: {
+            signingSecret: SECRET,
+            campaignId: 1,
+            prizes: [{...prize, value: 5}],
+          },
+        },
       },
     };
 
     const result = cartLinesDiscountsGenerateRun(input);
-    expect(result.operations).toHaveLength(2);
+    expect(result.operations).toHaveLength(0);
+  });
+
+  it("still applies the prize on the shop's date it expires", () => {
+    const input = {...baseInput, shop: {localTime: {date: "2030-03-17"}}};
+
+    const result = cartLinesDiscountsGenerateRun(input);
+    expect(result.operations).toHaveLength(1);
+  });
+
+  it("returns empty operations once the prize expired", () => {
+    const input = {...baseInput, shop: {localTime: {date: "2030-03-18"}}};
+
+    const result = cartLinesDiscountsGenerateRun(input);
+    expect(result.operations).toHaveLength(0);
+  });
+
+  it("returns a fixed amount order discount in the presentment currency", () => {
+    const input = {
+      ...inputForPrize(
+        {id: "fixed-10", type: "fixed_amount", value: 10},
+        [DiscountClass.Order],
+      ),
+      presentmentCurrencyRate: "1.5",
+    };
+
+    const result = cartLinesDiscountsGenerateRun(input);
+    expect(result.operations).toHaveLength(1);
     expect(result.operations[0]).toMatchObject({
       orderDiscountsAdd: {
         candidates: [
           {
-            message: "10% OFF ORDER",
-            targets: [
-              {
-                orderSubtotal: {
-                  excludedCartLineIds: [],
-                },
-              },
-            ],
-            value: {
-              percentage: {
-                value: 10,
-              },
-            },
+            message: "RAFFLE DISCOUNT",
+            targets: [{orderSubtotal: {excludedCartLineIds: []}}],
+            value: {fixedAmount: {amount: 15}},
           },
         ],
         selectionStrategy: OrderDiscountSelectionStrategy.First,
       },
     });
+  });
 
-    expect(result.operations[1]).toMatchObject({
-      productDiscountsAdd: {
-        candidates: [
-          {
-            message: "20% OFF PRODUCT",
-            targets: [
-              {
-                cartLine: {
-                  id: "gid://shopify/CartLine/0",
-                },
-              },
-            ],
-            value: {
-              percentage: {
-                value: 20,
-              },
+  describe("product prizes", () => {
+    const cart = {
+      ...baseInput.cart,
+      lines: [
+        {
+          id: "gid://shopify/CartLine/0",
+          merchandise: {
+            __typename: "ProductVariant",
+            product: {
+              id: "gid://shopify/Product/1",
+              inCollections: [],
+              inExcludedCollection: false,
             },
           },
-        ],
-        selectionStrategy: ProductDiscountSelectionStrategy.First,
-      },
+        },
+        {
+          id: "gid://shopify/CartLine/1",
+          merchandise: {
+            __typename: "ProductVariant",
+            product: {
+              id: "gid://shopify/Product/2",
+              inCollections: [
+                {collectionId: "gid://shopify/Collection/1", isMember: true},
+              ],
+              inExcludedCollection: false,
+            },
+          },
+        },
+        {
+          id: "gid://shopify/CartLine/2",
+          merchandise: {
+            __typename: "ProductVariant",
+            product: {
+              id: "gid://shopify/Product/3",
+              inCollections: [
+                {collectionId: "gid://shopify/Collection/1", isMember: false},
+              ],
+              inExcludedCollection: false,
+            },
+          },
+        },
+        {
+          id: "gid://shopify/CartLine/3",
+          merchandise: {__typename: "CustomProduct"},
+        },
+      ],
+    };
+
+    const productPrize = {
+      id: "product-20",
+      type: "product_percentage",
+      value: 20,
+      productIds: ["gid://shopify/Product/1"],
+      collectionIds: ["gid://shopify/Collection/1"],
+    };
+
+    it("discounts the lines of listed products and collections", () => {
+      const result = cartLinesDiscountsGenerateRun(
+        inputForPrize(productPrize, [DiscountClass.Product], cart),
+      );
+
+      expect(result.operations).toHaveLength(1);
+      expect(result.operations[0]).toMatchObject({
+        productDiscountsAdd: {
+          candidates: [
+            {
+              message: "20% RAFFLE DISCOUNT",
+              targets: [
+                {cartLine: {id: "gid://shopify/CartLine/0"}},
+                {cartLine: {id: "gid://shopify/CartLine/1"}},
+              ],
+              value: {percentage: {value: 20}},
+            },
+          ],
+          selectionStrategy: ProductDiscountSelectionStrategy.First,
+        },
+      });
+    });
+
+    it("returns empty operations when no line matches", () => {
+      const result = cartLinesDiscountsGenerateRun(
+        inputForPrize(
+          {...productPrize, productIds: [], collectionIds: ["gid://shopify/Collection/2"]},
+          [DiscountClass.Product],
+          cart,
+        ),
+      );
+
+      expect(result.operations).toHaveLength(0);
+    });
+
+    it("returns empty operations without the product discount class", () => {
+      const result = cartLinesDiscountsGenerateRun(
+        inputForPrize(productPrize, [DiscountClass.Order], cart),
+      );
+
+      expect(result.operations).toHaveLength(0);
+    });
+  });
+
+  it("leaves free shipping prizes to the delivery target", () => {
+    const result = cartLinesDiscountsGenerateRun(
+      inputForPrize(
+        {id: "free-shipping", type: "free_shipping", value: 0},
+        [DiscountClass.Order, DiscountClass.Product, DiscountClass.Shipping],
+      ),
+    );
+
+    expect(result.operations).toHaveLength(0);
+  });
+
+  describe("eligibility rules", () => {
+    /**
+     * Builds an input whose discount configuration has the given rules
+     */
+    function inputWithRules(rules, cart = baseInput.cart) {
+      return {
+        ...baseInput,
+        cart,
+        discount: {
+          ...baseInput.discount,
+          metafield: {
+            jsonValue: {
+              ...baseInput.discount.metafield.jsonValue,
+              ...rules,
+            },
+          },
+        },
+      };
+    }
+
+    const cartWithExcludedLine = {
+      ...baseInput.cart,
+      lines: [
+        ...baseInput.cart.lines,
+        {
+          id: "gid://shopify/CartLine/1",
+          merchandise: {
+            __typename: "ProductVariant",
+            product: {
+              id: "gid://shopify/Product/2",
+              inCollections: [],
+              inExcludedCollection: true,
+            },
+          },
+        },
+      ],
+    };
+
+    it("excludes lines in excluded collections from the order subtotal", () => {
+      const result = cartLinesDiscountsGenerateRun(
+        inputWithRules(
+          {excludedCollectionIds: ["gid://shopify/Collection/9"]},
+          cartWithExcludedLine,
+        ),
+      );
+
+      expect(
+        result.operations[0].orderDiscountsAdd.candidates[0].targets,
+      ).toEqual([
+        {orderSubtotal: {excludedCartLineIds: ["gid://shopify/CartLine/1"]}},
+      ]);
+    });
+
+    it("returns empty operations when every line is excluded", () => {
+      const result = cartLinesDiscountsGenerateRun(
+        inputWithRules(
+          {excludedCollectionIds: ["gid://shopify/Collection/9"]},
+          {...cartWithExcludedLine, lines: cartWithExcludedLine.lines.slice(1)},
+        ),
+      );
+
+      expect(result.operations).toHaveLength(0);
+    });
+
+    it("never targets excluded lines with product prizes", () => {
+      const productPrize = {
+        id: "product-20",
+        type: "product_percentage",
+        value: 20,
+        productIds: ["gid://shopify/Product/1", "gid://shopify/Product/2"],
+        collectionIds: [],
+      };
+
+      const result = cartLinesDiscountsGenerateRun(
+        inputForPrize(productPrize, [DiscountClass.Product], cartWithExcludedLine),
+      );
+
+      expect(
+        result.operations[0].productDiscountsAdd.candidates[0].targets,
+      ).toEqual([{cartLine: {id: "gid://shopify/CartLine/0"}}]);
+    });
+
+    it("returns empty operations below the minimum subtotal", () => {
+      const result = cartLinesDiscountsGenerateRun(
+        inputWithRules({minimumSubtotal: 150}),
+      );
+
+      expect(result.operations).toHaveLength(0);
+    });
+
+    it("returns empty operations for customers without a required tag", () => {
+      const result = cartLinesDiscountsGenerateRun(
+        inputWithRules({customerTags: ["VIP"]}),
+      );
+
+      expect(result.operations).toHaveLength(0);
+    });
+
+    it("applies the prize for customers with a required tag", () => {
+      const result = cartLinesDiscountsGenerateRun(
+        inputWithRules(
+          {minimumSubtotal: 50, customerTags: ["VIP"]},
+          {...baseInput.cart, buyerIdentity: {customer: {hasAnyTag: true}}},
+        ),
+      );
+
+      expect(result.operations).toHaveLength(1);
     });
   });
-});
\ No newline at end of file
+});
@@ -0,0 +1,55 @@
+/**
+ * @typedef {import("./raffle_prize").RaffleConfiguration} RaffleConfiguration
+ */
+
+/**
+ * @typedef {Object} EligibilityCart
+ * @property {{subtotalAmount: {amount: string}}} cost
+ * @property {{customer?: {id?: string, hasAnyTag: boolean} | null} | null} [buyerIdentity]
+ */
+
+/**
+ * Whether the cart meets the discount's minimum subtotal and customer tag
+ * rules. The minimum subtotal is in the shop's currency, while the cart's
+ * subtotal is in the currency the buyer is checking out in.
+ *
+ * @param {EligibilityCart} cart
+ * @param {RaffleConfiguration} configuration
+ * @param {string | number} presentmentCurrencyRate
+ * @returns {boolean}
+ */
+export function isCartEligible(cart, configuration, presentmentCurrencyRate) {
+  const minimumSubtotal = Number(configuration.minimumSubtotal);
+  if (minimumSubtotal > 0) {
+    const subtotal = Number(cart.cost.subtotalAmount.amount);
+    const rate = Number(presentmentCurrencyRate ?? 1);
+
+    if (subtotal < minimumSubtotal * rate) {
+      return false;
+    }
+  }
+
+  // The input query checks the customer against the configured tags
+  if (configuration.customerTags?.length) {
+    return cart.buyerIdentity?.customer?.hasAnyTag === true;
+  }
+
+  return true;
+}
+
+/**
+ * Returns the ids of the cart lines whose product is in one of the
+ * discount's excluded collections.
+ *
+ * @param {Array<{id: string, merchandise: {__typename: string, product?: {inExcludedCollection: boolean}}}>} lines
+ * @returns {string[]}
+ */
+export function getExcludedCartLineIds(lines) {
+  return lines
+    .filter(
+      (line) =>
+        line.merchandise.__typename === "ProductVariant" &&
+        line.merchandise.product?.inExcludedCollection,
+    )
+    .map((line) => line.id);
+}
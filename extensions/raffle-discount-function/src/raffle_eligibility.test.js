@@ -0,0 +1,68 @@
+import {describe, it, expect} from "vitest";
+
+import {getExcludedCartLineIds, isCartEligible} from "./raffle_eligibility";
+
+describe("isCartEligible", () => {
+  const cart = {
+    cost: {subtotalAmount: {amount: "60.0"}},
+    buyerIdentity: null,
+  };
+
+  it("accepts any cart without rules", () => {
+    expect(isCartEligible(cart, {}, "1.0")).toBe(true);
+  });
+
+  it("compares the minimum subtotal in the presentment currency", () => {
+    const configuration = {minimumSubtotal: 50};
+
+    expect(isCartEligible(cart, configuration, "1.0")).toBe(true);
+    expect(isCartEligible(cart, configuration, "1.3")).toBe(false);
+  });
+
+  it("requires a tagged customer when customer tags are set", () => {
+    const configuration = {customerTags: ["VIP"]};
+
+    expect(isCartEligible(cart, configuration, "1.0")).toBe(false);
+    expect(
+      isCartEligible(
+        {...cart, buyerIdentity: {customer: {hasAnyTag: false}}},
+        configuration,
+        "1.0",
+      ),
+    ).toBe(false);
+    expect(
+      isCartEligible(
+        {...cart, buyerIdentity: {customer: {hasAnyTag: true}}},
+        configuration,
+        "1.0",
+      ),
+    ).toBe(true);
+  });
+});
+
+describe("getExcludedCartLineIds", () => {
+  it("returns the lines whose product is in an excluded collection", () => {
+    const lines = [
+      {
+        id: "gid://shopify/CartLine/0",
+        merchandise: {
+          __typename: "ProductVariant",
+          product: {inExcludedCollection: false},
+        },
+      },
+      {
+        id: "gid://shopify/CartLine/1",
+        merchandise: {
+          __typename: "ProductVariant",
+          product: {inExcludedCollection: true},
+        },
+      },
+      {
+        id: "gid://shopify/CartLine/2",
+        merchandise: {__typename: "CustomProduct"},
+      },
+    ];
+
+    expect(getExcludedCartLineIds(lines)).toEqual(["gid://shopify/CartLine/1"]);
+  });
+});
@@ -0,0 +1,124 @@
+import {verifyRaffleToken} from "./raffle_token";
+
+/**
+ * @typedef {Object} RafflePrize
+ * @property {string} id
+ * @property {string} type
+ * @property {number} value
+ * @property {string[]} [productIds] Products a "product_percentage" prize discounts
+ * @property {string[]} [collectionIds] Collections a "product_percentage" prize discounts
+ */
+
+/**
+ * @typedef {Object} RaffleConfiguration
+ * @property {string} signingSecret
+ * @property {number} campaignId
+ * @property {string[]} [collectionIds] Every collection a prize targets, passed to the input query
+ * @property {number | null} [minimumSubtotal] In the shop's currency
+ * @property {string[]} [customerTags] Customers need one of these tags, passed to the input query
+ * @property {string[]} [excludedCollectionIds] Never discounted, passed to the input query
+ * @property {number} [timezoneOffsetMinutes] The shop's offset from UTC, to find the shop's date a prize expires on
+ * @property {string | null} [discountMessage] Shown at checkout instead of "RAFFLE DISCOUNT"
+ * @property {RafflePrize[]} prizes
+ */
+
+// Shown at checkout when the merchant hasn't set their own message
+const DEFAULT_DISCOUNT_MESSAGE = "RAFFLE DISCOUNT";
+
+/**
+ * The message checkout shows for a prize's discount, and that orders list
+ * as the discount's title. Merchants can set their own message from the
+ * discount's function settings, except for free shipping.
+ *
+ * @param {{type: string, value: number}} prize
+ * @param {RaffleConfiguration | null | undefined} configuration
+ * @returns {string}
+ */
+export function getRaffleDiscountMessage(prize, configuration) {
+  if (prize.type === "free_shipping") {
+    return "FREE SHIPPING";
+  }
+
+  const message =
+    typeof configuration?.discountMessage === "string" &&
+    configuration.discountMessage.trim()
+      ? configuration.discountMessage.trim()
+      : DEFAULT_DISCOUNT_MESSAGE;
+
+  return prize.type === "fixed_amount"
+    ? message
+    : `${Number(prize.value)}% ${message}`;
+}
+
+/**
+ * Whether a prize expiring at `exp` (in seconds) has expired on the shop's
+ * date `today` (YYYY-MM-DD). Functions only know the shop's current date,
+ * not the time, so prizes stop applying the day after their last second.
+ * The app expires prizes at the shop's midnight, so this is right when
+ * raffle.js removes them from the cart.
+ *
+ * @param {number} exp
+ * @param {string} today
+ * @param {number} [timezoneOffsetMinutes]
+ * @returns {boolean}
+ */
+export function isRaffleWinExpired(exp, today, timezoneOffsetMinutes = 0) {
+  const lastDate = new Date(
+    (exp - 1) * 1000 + timezoneOffsetMinutes * 60 * 1000,
+  )
+    .toISOString()
+    .split("T")[0];
+
+  return today > lastDate;
+}
+
+/**
+ * Returns the prize a raffle token was issued for, or null when the token
+ * isn't validly signed, was drawn in another campaign than the one this
+ * discount belongs to, was drawn for another customer than the cart's
+ * buyer, has expired by the shop's date `today`, or its prize is no longer
+ * in the shop's prize table.
+ *
+ * Functions can't see the cart token, so the `shop` and `cart` claims
+ * aren't checked: a token drawn by a guest applies to any cart of the
+ * campaign until it expires. Tokens drawn by logged-in customers carry
+ * their `customer` claim and only apply to that customer's carts.
+ *
+ * @param {string | null | undefined} token
+ * @param {RaffleConfiguration | null | undefined} configuration
+ * @param {string} [today] The shop's current date, YYYY-MM-DD
+ * @param {string | null} [buyerCustomerId] The GID of the cart's customer
+ * @returns {RafflePrize | null}
+ */
+export function getRafflePrize(token, configuration, today, buyerCustomerId) {
+  if (!token || !configuration?.signingSecret) {
+    return null;
+  }
+
+  const payload = verifyRaffleToken(token, configuration.signingSecret);
+  if (!payload?.prize || payload.campaign !== configuration.campaignId) {
+    return null;
+  }
+
+  if (payload.customer && payload.customer !== buyerCustomerId) {
+    return null;
+  }
+
+  if (
+    today &&
+    isRaffleWinExpired(payload.exp, today, configuration.timezoneOffsetMinutes)
+  ) {
+    return null;
+  }
+
+  const prizes = Array.isArray(configuration.prizes) ? configuration.prizes : [];
+
+  return (
+    prizes.find(
+      (prize) =>
+        prize.id === payload.prize.id &&
+        prize.type === payload.prize.type &&
+        prize.value === payload.prize.value,
+    ) ?? null
+  );
+}
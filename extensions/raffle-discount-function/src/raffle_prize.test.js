@@ -0,0 +1,161 @@
+import {Buffer} from "node:buffer";
+import {createHmac} from "node:crypto";
+import {describe, it, expect} from "vitest";
+
+import {
+  getRaffleDiscountMessage,
+  getRafflePrize,
+  isRaffleWinExpired,
+} from "./raffle_prize";
+
+const SECRET = "test-signing-secret";
+
+function createToken(payload, secret = SECRET) {
+  const encodedPayload = Buffer.from(JSON.stringify(payload)).toString(
+    "base64url",
+  );
+  const signature = createHmac("sha256", secret)
+    .update(encodedPayload)
+    .digest("hex");
+  return `${encodedPayload}.${signature}`;
+}
+
+describe("getRafflePrize", () => {
+  const prize = {id: "percentage-8", type: "percentage", value: 8};
+  const configuration = {
+    signingSecret: SECRET,
+    campaignId: 1,
+    prizes: [{id: "percentage-5", type: "percentage", value: 5}, prize],
+  };
+  const token = createToken({
+    prize,
+    shop: "example.myshopify.com",
+    campaign: 1,
+    cart: "cart-token",
+    exp: 1900000000,
+  });
+
+  it("returns the configured prize the token was issued for", () => {
+    expect(getRafflePrize(token, configuration)).toEqual(prize);
+  });
+
+  it("returns null without a token or configuration", () => {
+    expect(getRafflePrize(null, configuration)).toBeNull();
+    expect(getRafflePrize(token, null)).toBeNull();
+  });
+
+  it("returns null when the token's prize was removed from the table", () => {
+    expect(
+      getRafflePrize(token, {...configuration, prizes: [configuration.prizes[0]]}),
+    ).toBeNull();
+  });
+
+  it("returns null when the prize's value changed since the draw", () => {
+    expect(
+      getRafflePrize(token, {...configuration, prizes: [{...prize, value: 10}]}),
+    ).toBeNull();
+  });
+
+  it("returns null once the token expired", () => {
+    expect(getRafflePrize(token, configuration, "2030-03-17")).toEqual(prize);
+    expect(getRafflePrize(token, configuration, "2030-03-18")).toBeNull();
+  });
+
+  it("returns null for tokens drawn in another campaign", () => {
+    expect(getRafflePrize(token, {...configuration, campaignId: 2})).toBeNull();
+  });
+
+  it("returns null for tokens signed with another secret", () => {
+    expect(
+      getRafflePrize(token, {...configuration, signingSecret: "other-secret"}),
+    ).toBeNull();
+  });
+
+  it("only applies customers' tokens to their own carts", () => {
+    const customerToken = createToken({
+      prize,
+      shop: "example.myshopify.com",
+      campaign: 1,
+      cart: "cart-token",
+      customer: "gid://shopify/Customer/1",
+      exp: 1900000000,
+    });
+
+    expect(
+      getRafflePrize(
+        customerToken,
+        configuration,
+        undefined,
+        "gid://shopify/Customer/1",
+      ),
+    ).toEqual(prize);
+    expect(
+      getRafflePrize(
+        customerToken,
+        configuration,
+        undefined,
+        "gid://shopify/Customer/2",
+      ),
+    ).toBeNull();
+    expect(getRafflePrize(customerToken, configuration)).toBeNull();
+  });
+
+  it("applies guests' tokens to any buyer", () => {
+    expect(
+      getRafflePrize(token, configuration, undefined, "gid://shopify/Customer/2"),
+    ).toEqual(prize);
+  });
+});
+
+describe("getRaffleDiscountMessage", () => {
+  it("prefixes percentage prizes with their value", () => {
+    expect(
+      getRaffleDiscountMessage({type: "percentage", value: 7}, null),
+    ).toBe("7% RAFFLE DISCOUNT");
+    expect(
+      getRaffleDiscountMessage({type: "product_percentage", value: 20}, {
+        discountMessage: "SPRING PRIZE",
+      }),
+    ).toBe("20% SPRING PRIZE");
+  });
+
+  it("uses the message as is for fixed amount prizes", () => {
+    expect(
+      getRaffleDiscountMessage({type: "fixed_amount", value: 10}, {
+        discountMessage: " SPRING PRIZE ",
+      }),
+    ).toBe("SPRING PRIZE");
+  });
+
+  it("always shows free shipping as free shipping", () => {
+    expect(
+      getRaffleDiscountMessage({type: "free_shipping", value: 0}, {
+        discountMessage: "SPRING PRIZE",
+      }),
+    ).toBe("FREE SHIPPING");
+  });
+});
+
+describe("isRaffleWinExpired", () => {
+  // 2030-03-17T17:46:40Z
+  const exp = 1900000000;
+
+  it("expires prizes the day after they expire", () => {
+    expect(isRaffleWinExpired(exp, "2030-03-17")).toBe(false);
+    expect(isRaffleWinExpired(exp, "2030-03-18")).toBe(true);
+  });
+
+  it("finds the date a prize expires on in the shop's timezone", () => {
+    // 2030-03-18T03:46:40 in UTC+10
+    expect(isRaffleWinExpired(exp, "2030-03-18", 600)).toBe(false);
+    expect(isRaffleWinExpired(exp, "2030-03-19", 600)).toBe(true);
+  });
+
+  it("expires prizes expiring at the shop's midnight on that day", () => {
+    // 2030-03-18T00:00:00 in UTC+10
+    const midnight = Date.UTC(2030, 2, 17, 14) / 1000;
+
+    expect(isRaffleWinExpired(midnight, "2030-03-17", 600)).toBe(false);
+    expect(isRaffleWinExpired(midnight, "2030-03-18", 600)).toBe(true);
+  });
+});
@@ -0,0 +1,222 @@
+/**
+ * Verification of the signed raffle tokens issued by the app proxy.
+ *
+ * The function runtime has no WebCrypto, so SHA-256 and HMAC are
+ * implemented here. Tokens look like `<base64url(JSON payload)>.<hex HMAC-SHA256>`.
+ */
+
+/**
+ * @typedef {Object} RafflePayload
+ * @property {{id: string, type: string, value: number}} prize
+ * @property {number | null} campaign
+ * @property {string} shop
+ * @property {string} cart
+ * @property {string} [customer] The logged-in customer's GID the prize was drawn for
+ * @property {number} exp In seconds
+ */
+
+const K = [
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1,
+  0x923f82a4, 0xab1c5ed5, 0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3,
+  0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174, 0xe49b69c1, 0xefbe4786,
+  0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147,
+  0x06ca6351, 0x14292967, 0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13,
+  0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85, 0xa2bfe8a1, 0xa81a664b,
+  0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a,
+  0x5b9cca4f, 0x682e6ff3, 0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208,
+  0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+];
+
+const BASE64URL_ALPHABET =
+  "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_";
+
+/**
+ * @param {number} value
+ * @param {number} bits
+ */
+function rotr(value, bits) {
+  return (value >>> bits) | (value << (32 - bits));
+}
+
+/**
+ * @param {string} value
+ * @returns {Uint8Array}
+ */
+function utf8Encode(value) {
+  const binary = unescape(encodeURIComponent(value));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * @param {Uint8Array} bytes
+ * @returns {string}
+ */
+function utf8Decode(bytes) {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return decodeURIComponent(escape(binary));
+}
+
+/**
+ * @param {string} value
+ * @returns {Uint8Array | null}
+ */
+function base64UrlDecode(value) {
+  const bytes = [];
+  let buffer = 0;
+  let bufferedBits = 0;
+
+  for (const char of value) {
+    const index = BASE64URL_ALPHABET.indexOf(char);
+    if (index === -1) {
+      return null;
+    }
+    buffer = (buffer << 6) | index;
+    bufferedBits += 6;
+    if (bufferedBits >= 8) {
+      bufferedBits -= 8;
+      bytes.push((buffer >> bufferedBits) & 0xff);
+    }
+  }
+
+  return new Uint8Array(bytes);
+}
+
+/**
+ * @param {Uint8Array} bytes
+ * @returns {Uint8Array}
+ */
+export function sha256(bytes) {
+  const paddedLength = Math.ceil((bytes.length + 9) / 64) * 64;
+  const padded = new Uint8Array(paddedLength);
+  padded.set(bytes);
+  padded[bytes.length] = 0x80;
+
+  const view = new DataView(padded.buffer);
+  const bitLength = bytes.length * 8;
+  view.setUint32(paddedLength - 8, Math.floor(bitLength / 0x100000000));
+  view.setUint32(paddedLength - 4, bitLength >>> 0);
+
+  const hash = [
+    0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c,
+    0x1f83d9ab, 0x5be0cd19,
+  ];
+  const w = new Uint32Array(64);
+
+  for (let offset = 0; offset < paddedLength; offset += 64) {
+    for (let i = 0; i < 16; i++) {
+      w[i] = view.getUint32(offset + i * 4);
+    }
+    for (let i = 16; i < 64; i++) {
+      const s0 = rotr(w[i - 15], 7) ^ rotr(w[i - 15], 18) ^ (w[i - 15] >>> 3);
+      const s1 = rotr(w[i - 2], 17) ^ rotr(w[i - 2], 19) ^ (w[i - 2] >>> 10);
+      w[i] = (w[i - 16] + s0 + w[i - 7] + s1) >>> 0;
+    }
+
+    let [a, b, c, d, e, f, g, h] = hash;
+
+    for (let i = 0; i < 64; i++) {
+      const s1 = rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25);
+      const ch = (e & f) ^ (~e & g);
+      const t1 = (h + s1 + ch + K[i] + w[i]) >>> 0;
+      const s0 = rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22);
+      const maj = (a & b) ^ (a & c) ^ (b & c);
+      const t2 = (s0 + maj) >>> 0;
+
+      h = g;
+      g = f;
+      f = e;
+      e = (d + t1) >>> 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (t1 + t2) >>> 0;
+    }
+
+    hash[0] = (hash[0] + a) >>> 0;
+    hash[1] = (hash[1] + b) >>> 0;
+    hash[2] = (hash[2] + c) >>> 0;
+    hash[3] = (hash[3] + d) >>> 0;
+    hash[4] = (hash[4] + e) >>> 0;
+    hash[5] = (hash[5] + f) >>> 0;
+    hash[6] = (hash[6] + g) >>> 0;
+    hash[7] = (hash[7] + h) >>> 0;
+  }
+
+  const digest = new Uint8Array(32);
+  const digestView = new DataView(digest.buffer);
+  hash.forEach((word, i) => digestView.setUint32(i * 4, word));
+  return digest;
+}
+
+/**
+ * @param {string} secret
+ * @param {string} message
+ * @returns {string} The hex-encoded HMAC-SHA256 of `message`
+ */
+export function hmacSha256Hex(secret, message) {
+  let key = utf8Encode(secret);
+  if (key.length > 64) {
+    key = sha256(key);
+  }
+
+  const innerPad = new Uint8Array(64 + utf8Encode(message).length);
+  const outerPad = new Uint8Array(64 + 32);
+  for (let i = 0; i < 64; i++) {
+    innerPad[i] = (key[i] || 0) ^ 0x36;
+    outerPad[i] = (key[i] || 0) ^ 0x5c;
+  }
+  innerPad.set(utf8Encode(message), 64);
+  outerPad.set(sha256(innerPad), 64);
+
+  return Array.from(sha256(outerPad), (byte) =>
+    byte.toString(16).padStart(2, "0"),
+  ).join("");
+}
+
+/**
+ * Returns the payload of a token signed with `secret`, or null when the
+ * token is malformed or its signature doesn't match.
+ *
+ * @param {string} token
+ * @param {string} secret
+ * @returns {RafflePayload | null}
+ */
+export function verifyRaffleToken(token, secret) {
+  const [encodedPayload, signature] = token.split(".");
+  if (!encodedPayload || !signature) {
+    return null;
+  }
+
+  const expected = hmacSha256Hex(secret, encodedPayload);
+  if (expected.length !== signature.length) {
+    return null;
+  }
+
+  let mismatch = 0;
+  for (let i = 0; i < expected.length; i++) {
+    mismatch |= expected.charCodeAt(i) ^ signature.charCodeAt(i);
+  }
+  if (mismatch !== 0) {
+    return null;
+  }
+
+  const payloadBytes = base64UrlDecode(encodedPayload);
+  if (!payloadBytes) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(utf8Decode(payloadBytes));
+  } catch {
+    return null;
+  }
+}
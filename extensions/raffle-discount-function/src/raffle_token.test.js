@@ -0,0 +1,76 @@
+import {Buffer} from "node:buffer";
+import {createHash, createHmac} from "node:crypto";
+import {describe, it, expect} from "vitest";
+
+import {hmacSha256Hex, sha256, verifyRaffleToken} from "./raffle_token";
+
+const SECRET = "test-signing-secret";
+
+function createToken(payload, secret = SECRET) {
+  const encodedPayload = Buffer.from(JSON.stringify(payload)).toString(
+    "base64url",
+  );
+  const signature = createHmac("sha256", secret)
+    .update(encodedPayload)
+    .digest("hex");
+  return `${encodedPayload}.${signature}`;
+}
+
+describe("sha256", () => {
+  it("matches node's implementation across block boundaries", () => {
+    for (const length of [0, 3, 55, 56, 64, 119, 200]) {
+      const message = "a".repeat(length);
+      const digest = Buffer.from(sha256(new TextEncoder().encode(message)));
+
+      expect(digest.toString("hex")).toBe(
+        createHash("sha256").update(message).digest("hex"),
+      );
+    }
+  });
+});
+
+describe("hmacSha256Hex", () => {
+  it("matches node's implementation", () => {
+    const longSecret = "s".repeat(100);
+
+    expect(hmacSha256Hex(SECRET, "message")).toBe(
+      createHmac("sha256", SECRET).update("message").digest("hex"),
+    );
+    expect(hmacSha256Hex(longSecret, "message")).toBe(
+      createHmac("sha256", longSecret).update("message").digest("hex"),
+    );
+  });
+});
+
+describe("verifyRaffleToken", () => {
+  const payload = {
+    prize: {id: "percentage-7", type: "percentage", value: 7},
+    shop: "example.myshopify.com",
+    cart: "cart-token",
+    exp: 1900000000,
+  };
+
+  it("returns the payload of a correctly signed token", () => {
+    expect(verifyRaffleToken(createToken(payload), SECRET)).toEqual(payload);
+  });
+
+  it("rejects tokens signed with another secret", () => {
+    expect(
+      verifyRaffleToken(createToken(payload, "other-secret"), SECRET),
+    ).toBeNull();
+  });
+
+  it("rejects tokens whose payload was tampered with", () => {
+    const [, signature] = createToken(payload).split(".");
+    const forgedPayload = Buffer.from(
+      JSON.stringify({...payload, prize: {...payload.prize, value: 10}}),
+    ).toString("base64url");
+
+    expect(verifyRaffleToken(`${forgedPayload}.${signature}`, SECRET)).toBeNull();
+  });
+
+  it("rejects malformed tokens", () => {
+    expect(verifyRaffleToken("10", SECRET)).toBeNull();
+    expect(verifyRaffleToken("", SECRET)).toBeNull();
+  });
+});
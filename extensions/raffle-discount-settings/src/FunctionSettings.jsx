@@ -0,0 +1,259 @@
+import '@shopify/ui-extensions/preact';
+import { render } from 'preact';
+import { useCallback, useEffect, useState } from 'preact/hooks';
+
+// Served by app/routes/api.raffle-settings.tsx. Requests to the app's own
+// backend get the admin session token added automatically.
+const RAFFLE_SETTINGS_URL = 'api/raffle-settings';
+
+// Matches RAFFLE_PRIZE_TYPES in app/models/raffle.server.ts
+const PRIZE_TYPES = [
+  'percentage',
+  'fixed_amount',
+  'free_shipping',
+  'product_percentage',
+  'none',
+];
+
+// Matches RAFFLE_DISCOUNT_MESSAGE_MAX_LENGTH in app/models/raffle.server.ts
+const DISCOUNT_MESSAGE_MAX_LENGTH = 50;
+
+export default async () => {
+  render(<Extension />, document.body);
+};
+
+/**
+ * Fetches the shop's raffle settings from the app
+ */
+async function fetchRaffleSettings() {
+  const res = await fetch(RAFFLE_SETTINGS_URL);
+
+  if (!res.ok) {
+    throw new Error('Network error');
+  }
+
+  return res.json();
+}
+
+/**
+ * Saves the raffle settings. The app syncs them into the metafield of
+ * every raffle discount, so the function and the storefront agree.
+ */
+async function saveRaffleSettings(settings) {
+  const res = await fetch(RAFFLE_SETTINGS_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(settings),
+  });
+
+  const result = await res.json().catch(() => null);
+  if (!res.ok || !result?.success) {
+    throw new Error(result?.error || 'Network error');
+  }
+}
+
+/**
+ * Whether a prize type has a value to edit
+ */
+function hasValue(type) {
+  return type !== 'free_shipping' && type !== 'none';
+}
+
+function Extension() {
+  const { i18n } = shopify;
+
+  const [saved, setSaved] = useState(null);
+  const [prizes, setPrizes] = useState([]);
+  const [minimumSubtotal, setMinimumSubtotal] = useState('');
+  const [customerTags, setCustomerTags] = useState('');
+  const [discountMessage, setDiscountMessage] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState(null);
+
+  const resetForm = useCallback(() => {
+    if (!saved) return;
+
+    setPrizes(saved.prizes);
+    setMinimumSubtotal(
+      saved.rules.minimumSubtotal !== null
+        ? String(saved.rules.minimumSubtotal)
+        : '',
+    );
+    setCustomerTags(saved.rules.customerTags.join(', '));
+    setDiscountMessage(saved.discountMessage ?? '');
+  }, [saved]);
+
+  useEffect(() => {
+    (async () => {
+      try {
+        setSaved(await fetchRaffleSettings());
+      } catch (err) {
+        setError(i18n.translate('loadError'));
+      } finally {
+        setLoading(false);
+      }
+    })();
+  }, [i18n]);
+
+  useEffect(resetForm, [resetForm]);
+
+  const handleSubmit = useCallback(async () => {
+    const settings = {
+      prizes,
+      rules: {
+        ...saved.rules,
+        minimumSubtotal: minimumSubtotal ? Number(minimumSubtotal) : null,
+        customerTags: customerTags
+          .split(',')
+          .map((tag) => tag.trim())
+          .filter(Boolean),
+      },
+      discountMessage: discountMessage.trim() || null,
+    };
+
+    setError(null);
+
+    try {
+      await saveRaffleSettings(settings);
+      setSaved(settings);
+    } catch (err) {
+      setError(err.message);
+      // Rejecting keeps the discount form from reporting a successful save
+      throw err;
+    }
+  }, [saved, prizes, minimumSubtotal, customerTags, discountMessage]);
+
+  const updatePrize = (id, changes) => {
+    setPrizes((current) =>
+      current.map((prize) => (prize.id === id ? { ...prize, ...changes } : prize)),
+    );
+  };
+
+  const addPrize = () => {
+    setPrizes((current) => [
+      ...current,
+      { id: crypto.randomUUID(), type: 'percentage', value: 5, weight: 1 },
+    ]);
+  };
+
+  const removePrize = (id) => {
+    setPrizes((current) => current.filter((prize) => prize.id !== id));
+  };
+
+  if (loading) {
+    return (
+      <s-function-settings>
+        <s-stack direction="block" gap="base">
+          <s-spinner size="base" />
+          <s-text>{i18n.translate('loadingMessage')}</s-text>
+        </s-stack>
+      </s-function-settings>
+    );
+  }
+
+  if (!saved) {
+    return (
+      <s-function-settings>
+        <s-banner tone="critical">{error}</s-banner>
+      </s-function-settings>
+    );
+  }
+
+  return (
+    <s-function-settings
+      onSubmit={(event) => event.waitUntil?.(handleSubmit())}
+      onReset={resetForm}
+    >
+      <s-stack direction="block" gap="base">
+        {error && (
+          <s-banner tone="critical" dismissible onDismiss={() => setError(null)}>
+            {error}
+          </s-banner>
+        )}
+
+        <s-section heading={i18n.translate('prizes.heading')}>
+          <s-stack direction="block" gap="base">
+            {prizes.map((prize) => (
+              <s-stack key={prize.id} direction="inline" gap="base">
+                <s-select
+                  label={i18n.translate('prizes.type')}
+                  value={prize.type}
+                  onChange={(e) =>
+                    updatePrize(prize.id, { type: e.currentTarget.value })
+                  }
+                >
+                  {PRIZE_TYPES.map((type) => (
+                    <s-option key={type} value={type}>
+                      {i18n.translate(`prizes.types.${type}`)}
+                    </s-option>
+                  ))}
+                </s-select>
+                {hasValue(prize.type) && (
+                  <s-number-field
+                    label={i18n.translate('prizes.value')}
+                    value={String(prize.value)}
+                    min={0}
+                    onChange={(e) =>
+                      updatePrize(prize.id, {
+                        value: Number(e.currentTarget.value),
+                      })
+                    }
+                  />
+                )}
+                <s-number-field
+                  label={i18n.translate('prizes.weight')}
+                  value={String(prize.weight)}
+                  min={0}
+                  onChange={(e) =>
+                    updatePrize(prize.id, {
+                      weight: Number(e.currentTarget.value),
+                    })
+                  }
+                />
+                <s-button
+                  variant="tertiary"
+                  tone="critical"
+                  disabled={prizes.length === 1}
+                  onClick={() => removePrize(prize.id)}
+                >
+                  {i18n.translate('prizes.remove')}
+                </s-button>
+              </s-stack>
+            ))}
+            <s-button onClick={addPrize}>{i18n.translate('prizes.add')}</s-button>
+            <s-text color="subdued">{i18n.translate('prizes.productsHint')}</s-text>
+          </s-stack>
+        </s-section>
+
+        <s-section heading={i18n.translate('eligibility.heading')}>
+          <s-stack direction="block" gap="base">
+            <s-number-field
+              label={i18n.translate('eligibility.minimumSubtotal')}
+              details={i18n.translate('eligibility.minimumSubtotalDetails')}
+              value={minimumSubtotal}
+              min={0}
+              onChange={(e) => setMinimumSubtotal(e.currentTarget.value)}
+            />
+            <s-text-field
+              label={i18n.translate('eligibility.customerTags')}
+              details={i18n.translate('eligibility.customerTagsDetails')}
+              value={customerTags}
+              onChange={(e) => setCustomerTags(e.currentTarget.value)}
+            />
+          </s-stack>
+        </s-section>
+
+        <s-section heading={i18n.translate('messaging.heading')}>
+          <s-text-field
+            label={i18n.translate('messaging.discountMessage')}
+            details={i18n.translate('messaging.discountMessageDetails')}
+            placeholder="RAFFLE DISCOUNT"
+            maxLength={DISCOUNT_MESSAGE_MAX_LENGTH}
+            value={discountMessage}
+            onChange={(e) => setDiscountMessage(e.currentTarget.value)}
+          />
+        </s-section>
+      </s-stack>
+    </s-function-settings>
+  );
+}
@@ -7,18 +7,50 @@
   // Configuration
   const config = window.RaffleModalConfig || {
     proxyUrl: "/apps/raffle",
+    cartUrl: "/cart.js",
     cartUpdateUrl: "/cart/update.js",
+    discountUrl: "/discount",
+    labels: {
+      discount: "OFF",
+      productDiscount: "OFF SELECTED ITEMS",
+      freeShipping: "FREE SHIPPING",
+    },
+    game: {
+      style: "button",
+    },
+    display: {
+      template: "index",
+      templates: ["index", "product", "collection", "cart", "other"],
+      trigger: "immediate",
+      autoOpen: false,
+      exitIntent: false,
+      frequencyDays: 1,
+    },
   };
 
+  // Templates merchants pick one by one, all others count as "other"
+  const TEMPLATES = ["index", "product", "collection", "cart"];
+
+  // When the raffle was last opened automatically, for frequency capping
+  const AUTO_OPENED_AT_KEY = "raffle_auto_opened_at";
+
+  const DAY_MS = 24 * 60 * 60 * 1000;
+
+  const SVG_NS = "http://www.w3.org/2000/svg";
+  const WHEEL_SIZE = 240;
+  const WHEEL_SPIN_MS = 4000;
+
   // DOM Elements
   let elements = {};
 
   // State
   let state = {
     isOpen: false,
+    isRevealed: false,
     isLoading: false,
     hasPlayed: false,
-    discountAmount: null,
+    hasExpired: false,
+    prize: null,
   };
 
   /**
@@ -34,11 +66,33 @@
       tryLuckBtn: document.getElementById("raffle-try-luck"),
       retryBtn: document.getElementById("raffle-retry"),
       continueBtn: document.getElementById("raffle-continue"),
+      noPrizeContinueBtn: document.getElementById("raffle-no-prize-continue"),
+      rateLimitedContinueBtn: document.getElementById(
+        "raffle-rate-limited-continue",
+      ),
+      expiredContinueBtn: document.getElementById("raffle-expired-continue"),
+      emailForm: document.getElementById("raffle-email-form"),
+      emailInput: document.getElementById("raffle-email-input"),
+      consentInput: document.getElementById("raffle-consent-input"),
+      emailError: document.getElementById("raffle-email-error"),
+      gameHint: document.getElementById("raffle-game-hint"),
+      gameStage: document.getElementById("raffle-game-stage"),
       discountValue: document.getElementById("raffle-discount-value"),
+      discountSymbol: document.getElementById("raffle-discount-symbol"),
+      discountLabel: document.getElementById("raffle-discount-label"),
+      code: document.getElementById("raffle-code"),
+      codeValue: document.getElementById("raffle-code-value"),
+      codeCopyBtn: document.getElementById("raffle-code-copy"),
       states: {
         initial: document.getElementById("raffle-initial"),
+        email: document.getElementById("raffle-email"),
         loading: document.getElementById("raffle-loading"),
+        game: document.getElementById("raffle-game"),
         success: document.getElementById("raffle-success"),
+        noPrize: document.getElementById("raffle-no-prize"),
+        loginRequired: document.getElementById("raffle-login-required"),
+        rateLimited: document.getElementById("raffle-rate-limited"),
+        expired: document.getElementById("raffle-expired"),
         error: document.getElementById("raffle-error"),
       },
     };
@@ -50,14 +104,206 @@
     }
 
     // Check if already played (stored in sessionStorage)
-    const storedDiscount = sessionStorage.getItem("raffle_discount");
-    if (storedDiscount) {
-      state.hasPlayed = true;
-      state.discountAmount = parseInt(storedDiscount, 10);
+    const storedPrize = sessionStorage.getItem("raffle_prize");
+    if (storedPrize) {
+      try {
+        state.prize = JSON.parse(storedPrize);
+        state.hasPlayed = true;
+      } catch {
+        sessionStorage.removeItem("raffle_prize");
+      }
+    }
+
+    state.hasExpired = Boolean(sessionStorage.getItem("raffle_prize_expired"));
+
+    // Remove the prize from the cart once it expires
+    if (state.prize) {
+      scheduleExpiry(state.prize);
     }
 
     // Bind events
     bindEvents();
+
+    // Logged-in customers keep their prize across carts and visits
+    if (config.customerId && !state.hasPlayed) {
+      restorePrize();
+    }
+
+    // Only show the raffle on the templates the merchant picked
+    if (isShownOnTemplate()) {
+      applyDisplayRules();
+    }
+  }
+
+  /**
+   * Whether the raffle is shown on the current page's template
+   */
+  function isShownOnTemplate() {
+    const { template, templates } = config.display;
+    const name = TEMPLATES.includes(template) ? template : "other";
+    return templates.includes(name);
+  }
+
+  /**
+   * Show the bubble right away, after a delay or once the shopper scrolled
+   * far enough, and listen for exit intent
+   */
+  function applyDisplayRules() {
+    const { trigger, delaySeconds, scrollPercent, exitIntent } = config.display;
+
+    if (trigger === "delay") {
+      setTimeout(revealRaffle, delaySeconds * 1000);
+    } else if (trigger === "scroll") {
+      watchScrollDepth(scrollPercent, revealRaffle);
+    } else {
+      revealRaffle();
+    }
+
+    if (exitIntent) {
+      document.addEventListener("mouseout", handleExitIntent);
+    }
+  }
+
+  /**
+   * Call `callback` once the shopper scrolled `percent` of the page
+   */
+  function watchScrollDepth(percent, callback) {
+    function handleScroll() {
+      const scrollable =
+        document.documentElement.scrollHeight - window.innerHeight;
+      const depth = scrollable > 0 ? (window.scrollY / scrollable) * 100 : 100;
+
+      if (depth >= percent) {
+        window.removeEventListener("scroll", handleScroll);
+        callback();
+      }
+    }
+
+    window.addEventListener("scroll", handleScroll, { passive: true });
+    handleScroll();
+  }
+
+  /**
+   * Open the raffle when the pointer leaves through the top of the page,
+   * towards the browser's tabs and address bar
+   */
+  function handleExitIntent(event) {
+    if (event.relatedTarget || event.clientY > 0) return;
+
+    document.removeEventListener("mouseout", handleExitIntent);
+    autoOpen();
+  }
+
+  /**
+   * Show the bubble, opening the raffle too when the merchant asked for it
+   */
+  function revealRaffle() {
+    if (state.isRevealed) return;
+
+    state.isRevealed = true;
+    elements.bubble.hidden = false;
+
+    if (config.display.autoOpen) {
+      autoOpen();
+    }
+  }
+
+  /**
+   * Open the raffle without the shopper asking, at most once every
+   * `frequencyDays` days and never after they played
+   */
+  function autoOpen() {
+    if (state.isOpen || state.hasPlayed) return;
+
+    try {
+      const openedAt = Number(localStorage.getItem(AUTO_OPENED_AT_KEY));
+      if (
+        openedAt &&
+        Date.now() - openedAt < config.display.frequencyDays * DAY_MS
+      ) {
+        return;
+      }
+      localStorage.setItem(AUTO_OPENED_AT_KEY, String(Date.now()));
+    } catch {
+      // Without storage there's no way to cap how often it opens
+      return;
+    }
+
+    revealRaffle();
+    openModal();
+  }
+
+  /**
+   * Restore a prize the logged-in customer won on an earlier visit into
+   * the current cart, without drawing a new one. Only checked once per
+   * session.
+   */
+  async function restorePrize() {
+    if (sessionStorage.getItem("raffle_restore_checked")) return;
+    sessionStorage.setItem("raffle_restore_checked", "true");
+
+    try {
+      const { prize, token, code, expiresAt } = await fetchRafflePrize({
+        lookup: "1",
+      });
+      if (!prize) return;
+
+      await applyPrize(token, code);
+      savePrize(prize, code, expiresAt);
+    } catch (error) {
+      console.warn("Raffle Modal: Couldn't restore prize", error);
+    }
+  }
+
+  /**
+   * Keep a drawn prize in the session, along with its code and expiry so
+   * it can be shown again, and remove it once it expires
+   */
+  function savePrize(prize, code, expiresAt) {
+    const storedPrize = { ...prize, code, expiresAt };
+    sessionStorage.setItem("raffle_prize", JSON.stringify(storedPrize));
+
+    state.hasPlayed = true;
+    state.prize = storedPrize;
+    scheduleExpiry(storedPrize);
+
+    return storedPrize;
+  }
+
+  /**
+   * Expire a won prize when its time is up, right away if it already is
+   */
+  function scheduleExpiry(prize) {
+    if (!prize.expiresAt) return;
+
+    const remaining = Date.parse(prize.expiresAt) - Date.now();
+    setTimeout(() => expirePrize(prize), Math.max(0, remaining));
+  }
+
+  /**
+   * Forget an expired prize and take its token off the cart. Codes expire
+   * on their own, so there's nothing to remove for those.
+   */
+  async function expirePrize(prize) {
+    sessionStorage.removeItem("raffle_prize");
+    sessionStorage.setItem("raffle_prize_expired", "true");
+
+    state.hasPlayed = false;
+    state.hasExpired = true;
+    state.prize = null;
+
+    if (state.isOpen) {
+      showState("expired");
+    }
+
+    if (!prize.code) {
+      try {
+        // An empty value removes the attribute
+        await updateCartAttribute("");
+      } catch (error) {
+        console.warn("Raffle Modal: Couldn't remove the expired prize", error);
+      }
+    }
   }
 
   /**
@@ -76,7 +322,12 @@
       .addEventListener("click", closeModal);
 
     // Try luck button
-    elements.tryLuckBtn.addEventListener("click", tryLuck);
+    elements.tryLuckBtn.addEventListener("click", () => tryLuck());
+
+    // Email entry form
+    if (elements.emailForm) {
+      elements.emailForm.addEventListener("submit", submitEmail);
+    }
 
     // Retry button
     if (elements.retryBtn) {
@@ -90,6 +341,22 @@
       elements.continueBtn.addEventListener("click", closeModal);
     }
 
+    if (elements.noPrizeContinueBtn) {
+      elements.noPrizeContinueBtn.addEventListener("click", closeModal);
+    }
+
+    if (elements.rateLimitedContinueBtn) {
+      elements.rateLimitedContinueBtn.addEventListener("click", closeModal);
+    }
+
+    if (elements.expiredContinueBtn) {
+      elements.expiredContinueBtn.addEventListener("click", closeModal);
+    }
+
+    if (elements.codeCopyBtn) {
+      elements.codeCopyBtn.addEventListener("click", copyCode);
+    }
+
     // ESC key to close
     document.addEventListener("keydown", handleKeyDown);
   }
@@ -123,9 +390,10 @@
     elements.bubble.setAttribute("aria-expanded", "true");
 
     // Show appropriate state
-    if (state.hasPlayed && state.discountAmount) {
-      elements.discountValue.textContent = state.discountAmount;
-      showState("success");
+    if (state.hasPlayed && state.prize) {
+      showPrize(state.prize);
+    } else if (state.hasExpired) {
+      showState("expired");
     } else {
       showState("initial");
     }
@@ -169,9 +437,373 @@
   }
 
   /**
-   * Handle "Try my luck" button click
+   * Show the state for a drawn prize
+   */
+  function showPrize(prize) {
+    if (prize.type === "none") {
+      showState("noPrize");
+      return;
+    }
+
+    let value = `${prize.value}`;
+    let symbol = "%";
+    let label = config.labels.discount;
+
+    if (prize.type === "fixed_amount") {
+      value = formatAmount(prize.value);
+      symbol = "";
+    } else if (prize.type === "free_shipping") {
+      value = "";
+      symbol = "";
+      label = config.labels.freeShipping;
+    } else if (prize.type === "product_percentage") {
+      label = config.labels.productDiscount;
+    }
+
+    elements.discountValue.textContent = value;
+    elements.discountSymbol.textContent = symbol;
+    elements.discountLabel.textContent = label;
+
+    if (elements.code) {
+      elements.code.hidden = !prize.code;
+      elements.codeValue.textContent = prize.code || "";
+    }
+
+    showState("success");
+  }
+
+  /**
+   * Copy the shown discount code to the clipboard
+   */
+  async function copyCode() {
+    const code = elements.codeValue.textContent;
+    if (!code) return;
+
+    try {
+      await navigator.clipboard.writeText(code);
+      const label = elements.codeCopyBtn.textContent;
+      elements.codeCopyBtn.textContent = config.messages.codeCopied;
+      setTimeout(() => {
+        elements.codeCopyBtn.textContent = label;
+      }, 2000);
+    } catch (error) {
+      console.warn("Raffle Modal: Couldn't copy the code", error);
+    }
+  }
+
+  /**
+   * Play the merchant's game for a draw. The server picks the segment the
+   * game lands on, the animation only shows it.
+   */
+  async function playGame(game) {
+    if (!game || !elements.gameStage) return;
+
+    const play = {
+      wheel: spinWheel,
+      scratch: scratchCard,
+      mystery_box: openMysteryBox,
+    }[config.game.style];
+    if (!play) return;
+
+    elements.gameHint.textContent = "";
+    elements.gameStage.replaceChildren();
+    showState("game");
+
+    try {
+      await play(game);
+    } catch (error) {
+      console.warn("Raffle Modal: Couldn't play the game", error);
+    }
+  }
+
+  /**
+   * A short label for a game segment
+   */
+  function describeSegment({ type, value }) {
+    switch (type) {
+      case "none":
+        return config.game.noPrize;
+      case "fixed_amount":
+        return formatAmount(value);
+      case "free_shipping":
+        return config.labels.freeShipping;
+      default:
+        return `${value}%`;
+    }
+  }
+
+  /**
+   * Wait for an element's transition to end, or `ms` at most
+   */
+  function waitForTransition(element, ms) {
+    return new Promise((resolve) => {
+      element.addEventListener("transitionend", resolve, { once: true });
+      setTimeout(resolve, ms);
+    });
+  }
+
+  function prefersReducedMotion() {
+    return window.matchMedia("(prefers-reduced-motion: reduce)").matches;
+  }
+
+  /**
+   * Spin a wheel with a segment per prize, landing on the drawn one
+   */
+  async function spinWheel({ segments, segment }) {
+    elements.gameHint.textContent = config.game.spinning;
+
+    const radius = WHEEL_SIZE / 2;
+    const angle = 360 / segments.length;
+    const point = (degrees, distance) => {
+      // Degrees are clockwise from the top, where the pointer is
+      const radians = ((degrees - 90) * Math.PI) / 180;
+      return [
+        radius + distance * Math.cos(radians),
+        radius + distance * Math.sin(radians),
+      ];
+    };
+
+    const wheel = document.createElementNS(SVG_NS, "svg");
+    wheel.setAttribute("viewBox", `0 0 ${WHEEL_SIZE} ${WHEEL_SIZE}`);
+    wheel.setAttribute("class", "raffle-game__wheel");
+    wheel.setAttribute("aria-hidden", "true");
+
+    segments.forEach((item, index) => {
+      const slice =
+        segments.length === 1
+          ? document.createElementNS(SVG_NS, "circle")
+          : document.createElementNS(SVG_NS, "path");
+
+      if (segments.length === 1) {
+        slice.setAttribute("cx", radius);
+        slice.setAttribute("cy", radius);
+        slice.setAttribute("r", radius);
+      } else {
+        const [startX, startY] = point(index * angle, radius);
+        const [endX, endY] = point((index + 1) * angle, radius);
+        slice.setAttribute(
+          "d",
+          `M ${radius} ${radius} L ${startX} ${startY} A ${radius} ${radius} 0 ${angle > 180 ? 1 : 0} 1 ${endX} ${endY} Z`,
+        );
+      }
+      slice.setAttribute("fill", "var(--raffle-accent, #6366f1)");
+      slice.setAttribute("fill-opacity", index % 2 ? "0.65" : "1");
+      slice.setAttribute("stroke", "#ffffff");
+
+      const middle = (index + 0.5) * angle;
+      const [labelX, labelY] = point(middle, radius * 0.65);
+      const label = document.createElementNS(SVG_NS, "text");
+      label.setAttribute("x", labelX);
+      label.setAttribute("y", labelY);
+      label.setAttribute("text-anchor", "middle");
+      label.setAttribute("dominant-baseline", "middle");
+      label.setAttribute("transform", `rotate(${middle} ${labelX} ${labelY})`);
+      label.setAttribute("class", "raffle-game__wheel-label");
+      label.textContent = describeSegment(item);
+
+      wheel.append(slice, label);
+    });
+
+    const pointer = document.createElement("div");
+    pointer.className = "raffle-game__pointer";
+    elements.gameStage.append(pointer, wheel);
+
+    // Lay the wheel out before it starts turning
+    wheel.getBoundingClientRect();
+
+    // A few full turns, then bring the drawn segment under the pointer,
+    // somewhere inside it rather than always in its middle
+    const offset = (Math.random() - 0.5) * angle * 0.6;
+    const rotation = 5 * 360 + (360 - (segment + 0.5) * angle) + offset;
+    wheel.style.transform = `rotate(${rotation}deg)`;
+
+    if (!prefersReducedMotion()) {
+      await waitForTransition(wheel, WHEEL_SPIN_MS + 500);
+    }
+  }
+
+  /**
+   * Share of a scratch card's cover that was scratched away, sampling
+   * every 16th pixel
+   */
+  function getScratchedShare(canvas) {
+    const { data } = canvas
+      .getContext("2d")
+      .getImageData(0, 0, canvas.width, canvas.height);
+    const step = 4 * 16;
+    let scratched = 0;
+
+    for (let i = 3; i < data.length; i += step) {
+      if (data[i] === 0) scratched++;
+    }
+
+    return scratched / Math.ceil(data.length / step);
+  }
+
+  /**
+   * A card the shopper scratches to reveal the drawn prize, with a button
+   * for those who can't or don't want to scratch
+   */
+  function scratchCard({ segments, segment }) {
+    elements.gameHint.textContent = config.game.scratchHint;
+
+    return new Promise((resolve) => {
+      const card = document.createElement("div");
+      card.className = "raffle-game__card";
+
+      const prize = document.createElement("div");
+      prize.className = "raffle-game__card-prize";
+      prize.textContent = describeSegment(segments[segment]);
+
+      const cover = document.createElement("canvas");
+      cover.className = "raffle-game__card-cover";
+      cover.width = 240;
+      cover.height = 120;
+
+      const context = cover.getContext("2d");
+      context.fillStyle = "#9ca3af";
+      context.fillRect(0, 0, cover.width, cover.height);
+      context.globalCompositeOperation = "destination-out";
+
+      const revealBtn = document.createElement("button");
+      revealBtn.type = "button";
+      revealBtn.className =
+        "raffle-modal__button raffle-modal__button--secondary";
+      revealBtn.textContent = config.game.reveal;
+
+      let isScratching = false;
+      let isRevealed = false;
+
+      const reveal = () => {
+        if (isRevealed) return;
+        isRevealed = true;
+        revealBtn.disabled = true;
+        cover.classList.add("raffle-game__card-cover--cleared");
+        setTimeout(resolve, prefersReducedMotion() ? 0 : 800);
+      };
+
+      const scratch = (event) => {
+        if (!isScratching) return;
+        const rect = cover.getBoundingClientRect();
+        const x = ((event.clientX - rect.left) * cover.width) / rect.width;
+        const y = ((event.clientY - rect.top) * cover.height) / rect.height;
+        context.beginPath();
+        context.arc(x, y, 16, 0, 2 * Math.PI);
+        context.fill();
+      };
+
+      cover.addEventListener("pointerdown", (event) => {
+        isScratching = true;
+        cover.setPointerCapture(event.pointerId);
+        scratch(event);
+      });
+      cover.addEventListener("pointermove", scratch);
+      cover.addEventListener("pointerup", () => {
+        isScratching = false;
+        if (getScratchedShare(cover) >= 0.5) {
+          reveal();
+        }
+      });
+      revealBtn.addEventListener("click", reveal);
+
+      card.append(prize, cover);
+      elements.gameStage.append(card, revealBtn);
+    });
+  }
+
+  /**
+   * Three boxes to pick from. Whichever box is opened holds the drawn
+   * prize.
+   */
+  function openMysteryBox({ segments, segment }) {
+    elements.gameHint.textContent = config.game.mysteryBoxHint;
+
+    return new Promise((resolve) => {
+      const boxes = document.createElement("div");
+      boxes.className = "raffle-game__boxes";
+
+      for (let i = 1; i <= 3; i++) {
+        const box = document.createElement("button");
+        box.type = "button";
+        box.className = "raffle-game__box";
+        box.textContent = "🎁";
+        box.setAttribute("aria-label", `${config.game.openBox} ${i}`);
+
+        box.addEventListener("click", () => {
+          boxes.querySelectorAll("button").forEach((button) => {
+            button.disabled = true;
+          });
+          box.classList.add("raffle-game__box--open");
+          box.textContent = describeSegment(segments[segment]);
+          setTimeout(resolve, prefersReducedMotion() ? 0 : 1200);
+        });
+
+        boxes.append(box);
+      }
+
+      elements.gameStage.append(boxes);
+    });
+  }
+
+  /**
+   * Format a fixed amount prize, which is in the shop's currency, in the
+   * currency the shopper is browsing in
+   */
+  function formatAmount(amount) {
+    const currency = window.Shopify?.currency;
+    const rate = Number(currency?.rate) || 1;
+    const code = currency?.active || config.currency;
+
+    if (!code) {
+      return `${amount}`;
+    }
+
+    return new Intl.NumberFormat(document.documentElement.lang || undefined, {
+      style: "currency",
+      currency: code,
+    }).format(amount * rate);
+  }
+
+  /**
+   * Show the email entry form, for shops that ask for an email to play
    */
-  async function tryLuck() {
+  function showEmailForm(consentRequired, errorMessage = "") {
+    elements.consentInput.required = consentRequired;
+    elements.emailError.textContent = errorMessage;
+    elements.emailError.hidden = !errorMessage;
+    showState("email");
+    elements.emailInput.focus();
+  }
+
+  /**
+   * Handle the email entry form, entering the raffle with the email
+   */
+  function submitEmail(event) {
+    event.preventDefault();
+
+    const email = elements.emailInput.value.trim();
+    const consent = elements.consentInput.checked;
+
+    if (!elements.emailInput.checkValidity() || !email) {
+      showEmailForm(
+        elements.consentInput.required,
+        config.messages.invalidEmail,
+      );
+      return;
+    }
+
+    if (elements.consentInput.required && !consent) {
+      showEmailForm(true, config.messages.consentRequired);
+      return;
+    }
+
+    tryLuck({ email, marketing_consent: consent });
+  }
+
+  /**
+   * Handle "Try my luck", optionally entering with an email
+   */
+  async function tryLuck(entry = null) {
     if (state.isLoading) return;
 
     state.isLoading = true;
@@ -184,26 +816,43 @@
 
     try {
       // Call app proxy endpoint
-      const discount = await fetchRaffleDiscount();
-
-      // Update cart attributes
-      await updateCartAttribute(discount);
+      const { prize, token, code, expiresAt, game } = await fetchRafflePrize(
+        {},
+        entry,
+      );
 
-      // Store in session
-      sessionStorage.setItem("raffle_discount", discount.toString());
+      // Apply the won prize to the cart
+      await applyPrize(token, code);
 
-      // Update state
-      state.hasPlayed = true;
-      state.discountAmount = discount;
+      // Store in session and update state
+      const storedPrize = savePrize(prize, code, expiresAt);
 
-      // Update discount display
-      elements.discountValue.textContent = discount;
+      // Play the game, which lands on the prize the server drew
+      await playGame(game);
 
-      // Show success state
-      showState("success");
+      // Show the drawn prize
+      showPrize(storedPrize);
     } catch (error) {
       console.error("Raffle Modal: Error", error);
-      showState("error");
+      if (error instanceof EmailRequiredError) {
+        const message =
+          error.code === "invalid_email"
+            ? config.messages.invalidEmail
+            : error.code === "consent_required"
+              ? config.messages.consentRequired
+              : "";
+        showEmailForm(error.consentRequired, message);
+      } else if (error instanceof RateLimitError) {
+        showState("rateLimited");
+      } else if (error instanceof LoginRequiredError) {
+        showState("loginRequired");
+      } else if (error instanceof PrizeExpiredError) {
+        state.hasExpired = true;
+        sessionStorage.setItem("raffle_prize_expired", "true");
+        showState("expired");
+      } else {
+        showState("error");
+      }
     } finally {
       state.isLoading = false;
       elements.tryLuckBtn.classList.remove("raffle-modal__button--loading");
@@ -211,38 +860,179 @@
   }
 
   /**
-   * Fetch discount from app proxy
+   * Thrown when the app proxy asks the shopper to come back later, either
+   * because they played too often or the shop gave out all of today's prizes
+   */
+  class RateLimitError extends Error {
+    constructor(code, retryAfter) {
+      super(`Rate limited: ${code}`);
+      this.code = code;
+      this.retryAfter = retryAfter;
+    }
+  }
+
+  /**
+   * Thrown when the shop only lets logged-in customers play
+   */
+  class LoginRequiredError extends Error {}
+
+  /**
+   * Thrown when the shopper already played and their prize expired
    */
-  async function fetchRaffleDiscount() {
-    const response = await fetch(config.proxyUrl, {
-      method: "GET",
+  class PrizeExpiredError extends Error {}
+
+  /**
+   * Thrown when the shop asks for an email to play, or the entered email
+   * or consent wasn't accepted
+   */
+  class EmailRequiredError extends Error {
+    constructor(code, consentRequired) {
+      super(`Email entry needed: ${code}`);
+      this.code = code;
+      this.consentRequired = consentRequired;
+    }
+  }
+
+  /**
+   * Fetch the current cart token, which the app proxy uses to
+   * look up any draw already made for this cart
+   */
+  async function fetchCartToken() {
+    const response = await fetch(config.cartUrl, {
       headers: {
         Accept: "application/json",
       },
     });
 
+    if (!response.ok) {
+      throw new Error(`Failed to load cart: ${response.status}`);
+    }
+
+    const cart = await response.json();
+
+    if (!cart.token) {
+      throw new Error("Invalid cart: token not found");
+    }
+
+    return cart.token;
+  }
+
+  /**
+   * Fetch the drawn prize from app proxy. With `lookup`, only a prize
+   * drawn before is returned and no new one is drawn. With an `entry`,
+   * the shopper enters with their email and marketing consent.
+   */
+  async function fetchRafflePrize(options = {}, entry = null) {
+    const cartToken = await fetchCartToken();
+    const params = new URLSearchParams({
+      cart_token: cartToken,
+      // Error messages come back in the storefront's language
+      ...(config.locale ? { locale: config.locale } : {}),
+      ...options,
+    });
+
+    const response = await fetch(`${config.proxyUrl}?${params}`, {
+      method: entry ? "POST" : "GET",
+      headers: {
+        Accept: "application/json",
+        ...(entry ? { "Content-Type": "application/json" } : {}),
+      },
+      ...(entry ? { body: JSON.stringify(entry) } : {}),
+    });
+
+    if (response.status === 400) {
+      const data = await response.json().catch(() => ({}));
+      if (
+        ["email_required", "invalid_email", "consent_required"].includes(
+          data.code,
+        )
+      ) {
+        throw new EmailRequiredError(
+          data.code,
+          data.consentRequired ?? elements.consentInput.required,
+        );
+      }
+    }
+
+    if (response.status === 401) {
+      throw new LoginRequiredError("Login required");
+    }
+
+    if (response.status === 410) {
+      throw new PrizeExpiredError("Prize expired");
+    }
+
+    if (response.status === 429) {
+      const data = await response.json().catch(() => ({}));
+      throw new RateLimitError(data.code, data.retryAfter);
+    }
+
     if (!response.ok) {
       throw new Error(`HTTP error! status: ${response.status}`);
     }
 
     const data = await response.json();
+    const prize = data.prize;
 
-    // Handle discount as either number or string
-    const discount = parseInt(data.discount, 10);
+    if (options.lookup && !prize) {
+      return {
+        prize: null,
+        token: null,
+        code: null,
+        expiresAt: null,
+        game: null,
+      };
+    }
 
-    if (isNaN(discount)) {
-      throw new Error("Invalid response: discount not found or invalid");
+    if (!prize || (prize.type !== "none" && !data.token && !data.code)) {
+      throw new Error("Invalid response: prize not found or invalid");
     }
 
-    return discount;
+    return {
+      prize,
+      token: data.token,
+      code: data.code ?? null,
+      expiresAt: data.expiresAt ?? null,
+      game: data.game ?? null,
+    };
+  }
+
+  /**
+   * Apply a won prize to the cart: the signed token goes into the cart
+   * attributes, while a discount code is applied to the cart directly
+   */
+  async function applyPrize(token, code) {
+    if (token) {
+      await updateCartAttribute(token);
+    } else if (code) {
+      await applyDiscountCode(code);
+    }
+  }
+
+  /**
+   * Apply a discount code to the cart through the storefront's discount
+   * URL, which stores the code in a cookie for checkout
+   */
+  async function applyDiscountCode(code) {
+    const response = await fetch(
+      `${config.discountUrl}/${encodeURIComponent(code)}`,
+      { credentials: "same-origin" },
+    );
+
+    if (!response.ok) {
+      throw new Error(`Failed to apply discount code: ${response.status}`);
+    }
+
+    return true;
   }
 
   /**
-   * Update cart attribute with discount amount
+   * Update cart attribute with the signed raffle token, which the
+   * discount function verifies before applying the discount
    */
-  async function updateCartAttribute(discount) {
+  async function updateCartAttribute(token) {
     const formData = new FormData();
-    formData.append("attributes[raffle_discount_amount]", discount.toString());
+    formData.append("attributes[raffle_discount_amount]", token);
 
     const response = await fetch(config.cartUpdateUrl, {
       method: "POST",
@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "RaffleDraw" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "shop" TEXT NOT NULL,
+    "cartToken" TEXT NOT NULL,
+    "customerId" TEXT,
+    "discount" INTEGER NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateIndex
+CREATE INDEX "RaffleDraw_shop_customerId_idx" ON "RaffleDraw"("shop", "customerId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RaffleDraw_shop_cartToken_key" ON "RaffleDraw"("shop", "cartToken");
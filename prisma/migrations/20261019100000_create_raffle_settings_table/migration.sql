@@ -0,0 +1,7 @@
+-- CreateTable
+CREATE TABLE "RaffleSettings" (
+    "shop" TEXT NOT NULL PRIMARY KEY,
+    "signingSecret" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "RaffleSettings" ADD COLUMN "prizeTable" TEXT;
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_RaffleDraw" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "shop" TEXT NOT NULL,
+    "cartToken" TEXT NOT NULL,
+    "customerId" TEXT,
+    "prizeId" TEXT NOT NULL,
+    "prizeType" TEXT NOT NULL,
+    "prizeValue" REAL NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+INSERT INTO "new_RaffleDraw" ("cartToken", "createdAt", "customerId", "id", "prizeId", "prizeType", "prizeValue", "shop") SELECT "cartToken", "createdAt", "customerId", "id", 'percentage-' || "discount", 'percentage', "discount", "shop" FROM "RaffleDraw";
+DROP TABLE "RaffleDraw";
+ALTER TABLE "new_RaffleDraw" RENAME TO "RaffleDraw";
+CREATE INDEX "RaffleDraw_shop_customerId_idx" ON "RaffleDraw"("shop", "customerId");
+CREATE UNIQUE INDEX "RaffleDraw_shop_cartToken_key" ON "RaffleDraw"("shop", "cartToken");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
@@ -0,0 +1,38 @@
+-- CreateTable
+CREATE TABLE "RaffleCampaign" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "shop" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'active',
+    "startsAt" DATETIME NOT NULL,
+    "endsAt" DATETIME,
+    "discountId" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_RaffleDraw" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "shop" TEXT NOT NULL,
+    "campaignId" INTEGER,
+    "cartToken" TEXT NOT NULL,
+    "customerId" TEXT,
+    "prizeId" TEXT NOT NULL,
+    "prizeType" TEXT NOT NULL,
+    "prizeValue" REAL NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+INSERT INTO "new_RaffleDraw" ("cartToken", "createdAt", "customerId", "id", "prizeId", "prizeType", "prizeValue", "shop") SELECT "cartToken", "createdAt", "customerId", "id", "prizeId", "prizeType", "prizeValue", "shop" FROM "RaffleDraw";
+DROP TABLE "RaffleDraw";
+ALTER TABLE "new_RaffleDraw" RENAME TO "RaffleDraw";
+CREATE INDEX "RaffleDraw_campaignId_customerId_idx" ON "RaffleDraw"("campaignId", "customerId");
+CREATE INDEX "RaffleDraw_shop_idx" ON "RaffleDraw"("shop");
+CREATE UNIQUE INDEX "RaffleDraw_campaignId_cartToken_key" ON "RaffleDraw"("campaignId", "cartToken");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE INDEX "RaffleCampaign_shop_status_idx" ON "RaffleCampaign"("shop", "status");
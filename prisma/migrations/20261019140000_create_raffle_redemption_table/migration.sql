@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "RaffleRedemption" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "shop" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "campaignId" INTEGER,
+    "drawId" INTEGER,
+    "prizeId" TEXT NOT NULL,
+    "prizeType" TEXT NOT NULL,
+    "discountAmount" REAL NOT NULL,
+    "orderSubtotal" REAL NOT NULL,
+    "currency" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RaffleRedemption_orderId_key" ON "RaffleRedemption"("orderId");
+
+-- CreateIndex
+CREATE INDEX "RaffleRedemption_shop_createdAt_idx" ON "RaffleRedemption"("shop", "createdAt");
@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "RaffleSettings" ADD COLUMN "dailyWinCap" INTEGER;
+
+-- CreateTable
+CREATE TABLE "RaffleRateLimit" (
+    "key" TEXT NOT NULL PRIMARY KEY,
+    "count" INTEGER NOT NULL,
+    "expiresAt" DATETIME NOT NULL
+);
+
+-- CreateIndex
+CREATE INDEX "RaffleRateLimit_expiresAt_idx" ON "RaffleRateLimit"("expiresAt");
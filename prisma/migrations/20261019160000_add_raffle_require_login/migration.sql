@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "RaffleSettings" ADD COLUMN "requireLogin" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,21 @@
+-- AlterTable
+ALTER TABLE "RaffleSettings" ADD COLUMN "requireEmail" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "RaffleSettings" ADD COLUMN "requireConsent" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "RaffleLead" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "shop" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "customerId" TEXT,
+    "campaignId" INTEGER,
+    "marketingConsent" BOOLEAN NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RaffleLead_shop_email_key" ON "RaffleLead"("shop", "email");
+
+-- CreateIndex
+CREATE INDEX "RaffleLead_shop_createdAt_idx" ON "RaffleLead"("shop", "createdAt");
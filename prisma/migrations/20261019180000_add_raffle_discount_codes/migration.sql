@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "RaffleDraw" ADD COLUMN "discountCode" TEXT;
+ALTER TABLE "RaffleDraw" ADD COLUMN "discountCodeId" TEXT;
+
+-- AlterTable
+ALTER TABLE "RaffleSettings" ADD COLUMN "fulfillment" TEXT NOT NULL DEFAULT 'attribute';
+ALTER TABLE "RaffleSettings" ADD COLUMN "codesCleanedAt" DATETIME;
+
+-- CreateIndex
+CREATE INDEX "RaffleDraw_discountCode_idx" ON "RaffleDraw"("discountCode");
@@ -0,0 +1,11 @@
+-- CreateTable
+CREATE TABLE "CancellationSettings" (
+    "shop" TEXT NOT NULL PRIMARY KEY,
+    "windowMinutes" INTEGER,
+    "requireUnfulfilled" BOOLEAN NOT NULL DEFAULT true,
+    "requireUncaptured" BOOLEAN NOT NULL DEFAULT false,
+    "excludedProductTags" TEXT,
+    "maxOrderValue" REAL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
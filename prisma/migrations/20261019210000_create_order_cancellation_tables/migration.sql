@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "OrderCancellation" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "shop" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "customerId" TEXT NOT NULL,
+    "reason" TEXT NOT NULL,
+    "note" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateTable
+CREATE TABLE "OrderCancellationItem" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "cancellationId" INTEGER NOT NULL,
+    "productId" TEXT,
+    "title" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    CONSTRAINT "OrderCancellationItem_cancellationId_fkey" FOREIGN KEY ("cancellationId") REFERENCES "OrderCancellation" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "OrderCancellation_shop_createdAt_idx" ON "OrderCancellation"("shop", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "OrderCancellationItem_cancellationId_idx" ON "OrderCancellationItem"("cancellationId");
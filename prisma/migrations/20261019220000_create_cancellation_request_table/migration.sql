@@ -0,0 +1,21 @@
+-- AlterTable
+ALTER TABLE "CancellationSettings" ADD COLUMN "approvalAboveValue" REAL;
+ALTER TABLE "CancellationSettings" ADD COLUMN "approvalWhenPaid" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "CancellationRequest" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "shop" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "customerId" TEXT NOT NULL,
+    "reason" TEXT NOT NULL,
+    "note" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "decisionNote" TEXT,
+    "decidedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateIndex
+CREATE INDEX "CancellationRequest_shop_orderId_idx" ON "CancellationRequest"("shop", "orderId");
@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "CancellationSettings" ADD COLUMN "refundToOriginalPayment" BOOLEAN NOT NULL DEFAULT true;
+ALTER TABLE "CancellationSettings" ADD COLUMN "refundToStoreCredit" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "CancellationSettings" ADD COLUMN "storeCreditBonusPercent" REAL;
+ALTER TABLE "CancellationSettings" ADD COLUMN "excludedRestockLocationIds" TEXT;
+
+-- AlterTable
+ALTER TABLE "CancellationRequest" ADD COLUMN "refundMethod" TEXT NOT NULL DEFAULT 'original_payment';
+
+-- AlterTable
+ALTER TABLE "OrderCancellation" ADD COLUMN "refundMethod" TEXT NOT NULL DEFAULT 'original_payment';
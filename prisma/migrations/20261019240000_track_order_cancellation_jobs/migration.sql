@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "OrderCancellation" ADD COLUMN "jobId" TEXT;
+ALTER TABLE "OrderCancellation" ADD COLUMN "status" TEXT NOT NULL DEFAULT 'pending';
+ALTER TABLE "OrderCancellation" ADD COLUMN "error" TEXT;
+ALTER TABLE "OrderCancellation" ADD COLUMN "restockAdjustments" TEXT;
+ALTER TABLE "OrderCancellation" ADD COLUMN "storeCreditBonus" REAL;
+ALTER TABLE "OrderCancellation" ADD COLUMN "storeCreditBonusCurrency" TEXT;
+ALTER TABLE "OrderCancellation" ADD COLUMN "completedAt" DATETIME;
+
+-- Cancellations recorded so far were only recorded once orderCancel succeeded
+UPDATE "OrderCancellation" SET "status" = 'completed';
+
+-- CreateIndex
+CREATE INDEX "OrderCancellation_shop_orderId_idx" ON "OrderCancellation"("shop", "orderId");
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "RaffleDraw" ADD COLUMN "clientIp" TEXT;
+
+-- CreateIndex
+CREATE INDEX "RaffleDraw_campaignId_clientIp_idx" ON "RaffleDraw"("campaignId", "clientIp");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "RaffleCampaign" ADD COLUMN "timezoneOffsetMinutes" INTEGER NOT NULL DEFAULT 0;
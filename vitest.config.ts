@@ -0,0 +1,9 @@
+import { defineConfig } from "vitest/config";
+
+// Unit tests of the app. Extensions run their own tests from their
+// directories, and vite.config.ts isn't needed to test server modules.
+export default defineConfig({
+  test: {
+    include: ["app/**/*.test.ts"],
+  },
+});